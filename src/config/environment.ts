@@ -3,6 +3,14 @@ import { config } from 'dotenv';
 // Load environment variables from .env file
 config();
 
+export interface GTFSFeedConfig {
+  id: string;
+  staticUrl: string;
+  tripUpdatesUrl: string;
+  vehiclePositionsUrl?: string;
+  alertsUrl?: string;
+}
+
 export interface EnvironmentConfig {
   // Server Configuration
   nodeEnv: string;
@@ -15,8 +23,18 @@ export interface EnvironmentConfig {
   gtfsVehiclePositionsUrl: string;
   gtfsAlertsUrl: string;
   gtfsStaticUrl: string;
+  gtfsFeeds: GTFSFeedConfig[];
   gtfsStaticRefreshInterval: number;
-  gtfsRealtimeCacheTtl: number;
+  gtfsTripUpdatesPollInterval: number;
+  gtfsVehiclePositionsPollInterval: number;
+  gtfsAlertsPollInterval: number;
+  gtfsRealtimeStaleThreshold: number;
+  gtfsSnapshotEnabled: boolean;
+  gtfsSnapshotPath: string;
+  gtfsRealtimeRecordingEnabled: boolean;
+  gtfsRealtimeRecordingPath: string;
+  gtfsRealtimeRecordingRotateInterval: number;
+  gtfsRealtimeRecordingRetention: number;
 
   // API Security
   apiKeyRequired: boolean;
@@ -91,8 +109,77 @@ const parseArray = (value: string | undefined, defaultValue: string[] = []): str
   return value.split(',').map(item => item.trim()).filter(Boolean);
 };
 
+// A string property of a GTFS_FEEDS entry; empty or absent reads as undefined
+const parseFeedString = (
+  feed: Record<string, unknown>,
+  key: string,
+  index: number
+): string | undefined => {
+  const value = feed[key];
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+  if (typeof value !== 'string') {
+    throw new Error(`GTFS_FEEDS[${index}].${key} must be a string`);
+  }
+  return value;
+};
+
+// Parse GTFS_FEEDS, a JSON array of per-agency feed configurations
+const parseFeeds = (value: string): GTFSFeedConfig[] => {
+  let feeds: unknown;
+  try {
+    feeds = JSON.parse(value);
+  } catch (error) {
+    throw new Error(`GTFS_FEEDS is not valid JSON: ${(error as Error).message}`);
+  }
+
+  if (!Array.isArray(feeds) || feeds.length === 0) {
+    throw new Error('GTFS_FEEDS must be a non-empty JSON array');
+  }
+
+  const ids = new Set<string>();
+  return feeds.map((entry: unknown, index: number) => {
+    if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+      throw new Error(`GTFS_FEEDS[${index}] must be an object`);
+    }
+    const feed = entry as Record<string, unknown>;
+
+    const id = parseFeedString(feed, 'id', index);
+    if (!id || !/^[A-Za-z0-9_-]+$/.test(id)) {
+      throw new Error(`GTFS_FEEDS[${index}].id must contain only letters, digits, '-' and '_'`);
+    }
+    if (ids.has(id)) {
+      throw new Error(`Duplicate feed id in GTFS_FEEDS: ${id}`);
+    }
+    ids.add(id);
+
+    const staticUrl = parseFeedString(feed, 'staticUrl', index);
+    if (!staticUrl) {
+      throw new Error(`GTFS_FEEDS[${index}].staticUrl is required`);
+    }
+    const tripUpdatesUrl = parseFeedString(feed, 'tripUpdatesUrl', index);
+    if (!tripUpdatesUrl) {
+      throw new Error(`GTFS_FEEDS[${index}].tripUpdatesUrl is required`);
+    }
+
+    return {
+      id,
+      staticUrl,
+      tripUpdatesUrl,
+      vehiclePositionsUrl: parseFeedString(feed, 'vehiclePositionsUrl', index),
+      alertsUrl: parseFeedString(feed, 'alertsUrl', index),
+    };
+  });
+};
+
 // Validate required environment variables
 const validateRequiredEnvVars = (): void => {
+  // A GTFS_FEEDS list replaces the single-agency URLs
+  if (process.env.GTFS_FEEDS) {
+    return;
+  }
+
   const required = [
     'GTFS_REALTIME_URL',
     'GTFS_STATIC_URL'
@@ -114,6 +201,16 @@ export const loadEnvironmentConfig = (): EnvironmentConfig => {
   const isProduction = nodeEnv === 'production';
   const isDevelopment = nodeEnv === 'development';
 
+  const gtfsFeeds: GTFSFeedConfig[] = process.env.GTFS_FEEDS
+    ? parseFeeds(process.env.GTFS_FEEDS)
+    : [{
+      id: process.env.GTFS_AGENCY_ID || 'default',
+      staticUrl: process.env.GTFS_STATIC_URL!,
+      tripUpdatesUrl: process.env.GTFS_REALTIME_URL!,
+      vehiclePositionsUrl: process.env.GTFS_VEHICLE_POSITIONS_URL,
+      alertsUrl: process.env.GTFS_ALERTS_URL,
+    }];
+
   const config: EnvironmentConfig = {
     // Server Configuration
     nodeEnv,
@@ -122,14 +219,24 @@ export const loadEnvironmentConfig = (): EnvironmentConfig => {
     debug: parseBoolean(process.env.DEBUG, isDevelopment),
 
     // GTFS Data Sources
-    gtfsRealtimeUrl: process.env.GTFS_REALTIME_URL!,
-    gtfsVehiclePositionsUrl: process.env.GTFS_VEHICLE_POSITIONS_URL ||
-      process.env.GTFS_REALTIME_URL!.replace('/tripupdates.pb', '/vehiclepositions.pb'),
-    gtfsAlertsUrl: process.env.GTFS_ALERTS_URL ||
-      process.env.GTFS_REALTIME_URL!.replace('/tripupdates.pb', '/alerts.pb'),
-    gtfsStaticUrl: process.env.GTFS_STATIC_URL!,
+    gtfsRealtimeUrl: gtfsFeeds[0].tripUpdatesUrl,
+    gtfsVehiclePositionsUrl: gtfsFeeds[0].vehiclePositionsUrl ||
+      gtfsFeeds[0].tripUpdatesUrl.replace('/tripupdates.pb', '/vehiclepositions.pb'),
+    gtfsAlertsUrl: gtfsFeeds[0].alertsUrl ||
+      gtfsFeeds[0].tripUpdatesUrl.replace('/tripupdates.pb', '/alerts.pb'),
+    gtfsStaticUrl: gtfsFeeds[0].staticUrl,
+    gtfsFeeds,
     gtfsStaticRefreshInterval: parseInteger(process.env.GTFS_STATIC_REFRESH_INTERVAL, 3600000),
-    gtfsRealtimeCacheTtl: parseInteger(process.env.GTFS_REALTIME_CACHE_TTL, 30000),
+    gtfsTripUpdatesPollInterval: parseInteger(process.env.GTFS_TRIP_UPDATES_POLL_INTERVAL, 0),
+    gtfsVehiclePositionsPollInterval: parseInteger(process.env.GTFS_VEHICLE_POSITIONS_POLL_INTERVAL, 0),
+    gtfsAlertsPollInterval: parseInteger(process.env.GTFS_ALERTS_POLL_INTERVAL, 0),
+    gtfsRealtimeStaleThreshold: parseInteger(process.env.GTFS_REALTIME_STALE_THRESHOLD, 300000),
+    gtfsSnapshotEnabled: parseBoolean(process.env.GTFS_SNAPSHOT_ENABLED, true),
+    gtfsSnapshotPath: process.env.GTFS_SNAPSHOT_PATH || '.cache/gtfs-snapshot.json.gz',
+    gtfsRealtimeRecordingEnabled: parseBoolean(process.env.GTFS_REALTIME_RECORDING_ENABLED, false),
+    gtfsRealtimeRecordingPath: process.env.GTFS_REALTIME_RECORDING_PATH || '.cache/realtime-recordings',
+    gtfsRealtimeRecordingRotateInterval: parseInteger(process.env.GTFS_REALTIME_RECORDING_ROTATE_INTERVAL, 3600000), // 1 hour
+    gtfsRealtimeRecordingRetention: parseInteger(process.env.GTFS_REALTIME_RECORDING_RETENTION, 604800000), // 7 days
 
     // API Security
     apiKeyRequired: parseBoolean(process.env.API_KEY_REQUIRED, false),
@@ -222,6 +329,7 @@ export const logConfigSummary = (): void => {
     enableNearbyStops: env.enableNearbyStops,
     gtfsRealtimeUrl: env.gtfsRealtimeUrl.replace(/\?.+/, '...'), // Hide query params
     gtfsStaticUrl: env.gtfsStaticUrl.replace(/\?.+/, '...'),
+    gtfsAgencies: env.gtfsFeeds.map(feed => feed.id).join(', '),
   };
 
   console.log('📋 Configuration Summary:');
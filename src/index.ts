@@ -4,7 +4,10 @@ import helmet from "helmet";
 import compression from "compression";
 import morgan from "morgan";
 import rateLimit from "express-rate-limit";
-import { GTFSService } from "./services/gtfsService";
+import { FeedRegistry } from "./services/feedRegistry";
+import { RealtimeFeedType } from "./services/realtimeFeed";
+import { RealtimeRecorder } from "./services/realtimeRecorder";
+import { AlertOptions } from "./types/gtfs";
 import {
   env,
   logConfigSummary,
@@ -16,9 +19,16 @@ import {
   createErrorResponse,
   createPaginatedResponse,
   handleAsync,
+  validateBoundingBox,
   validateLatLon,
   validatePositiveInteger,
   validatePositiveNumber,
+  validateServiceDate,
+  parseArrivalsParams,
+  validateBoolean,
+  validateTimestamp,
+  validateAlertPeriod,
+  getPreferredLanguages,
 } from "./utils/api";
 
 // Create Express app
@@ -190,24 +200,100 @@ if (env.performanceMonitoring) {
   });
 }
 
-// Initialize GTFS service with environment configuration
-const gtfsService = new GTFSService(env.gtfsRealtimeUrl, env.gtfsStaticUrl, {
-  vehiclePositionsUrl: env.gtfsVehiclePositionsUrl,
-  alertsUrl: env.gtfsAlertsUrl,
-  cacheTtl: env.gtfsRealtimeCacheTtl,
+// Initialize one GTFS service per configured agency feed
+// Realtime feeds are cached per type; with caching off, only concurrent
+// requests share a download
+const realtimeCacheTtl = (seconds: number) =>
+  env.cacheEnabled ? seconds * 1000 : 0;
+const realtimeRecorder = env.gtfsRealtimeRecordingEnabled
+  ? new RealtimeRecorder({
+      directory: env.gtfsRealtimeRecordingPath,
+      rotateInterval: env.gtfsRealtimeRecordingRotateInterval,
+      retention: env.gtfsRealtimeRecordingRetention,
+    })
+  : undefined;
+const feedRegistry = new FeedRegistry(env.gtfsFeeds, {
+  realtimeCacheTtls: {
+    tripUpdates: realtimeCacheTtl(env.cacheArrivalsTtl),
+    vehiclePositions: realtimeCacheTtl(env.cacheVehiclesTtl),
+    alerts: realtimeCacheTtl(env.cacheAlertsTtl),
+  },
+  realtimePollIntervals: {
+    tripUpdates: env.gtfsTripUpdatesPollInterval,
+    vehiclePositions: env.gtfsVehiclePositionsPollInterval,
+    alerts: env.gtfsAlertsPollInterval,
+  },
+  realtimeStaleThreshold: env.gtfsRealtimeStaleThreshold,
+  realtimeRecorder,
   staticRefreshInterval: env.gtfsStaticRefreshInterval,
+  snapshotPath: env.gtfsSnapshotEnabled ? env.gtfsSnapshotPath : undefined,
 });
 
+// Every endpoint accepts an optional ?agency= filter; reject unknown ones
+app.use("/api", (req, res, next) => {
+  const { agency } = req.query;
+  if (
+    agency !== undefined &&
+    (typeof agency !== "string" || !feedRegistry.hasAgency(agency))
+  ) {
+    return res.status(400).json(
+      createErrorResponse(
+        "Unknown agency",
+        `Valid agencies: ${feedRegistry
+          .getAgencies()
+          .map((info) => info.agencyId)
+          .join(", ")}`,
+      ),
+    );
+  }
+  return next();
+});
+
+const agencyFilter = (req: express.Request): string | undefined =>
+  req.query.agency as string | undefined;
+
+// Alerts attached to arrivals and trip details, when alerts are enabled.
+// Their text is in the reader's language, so the response varies with it.
+const attachedAlerts = (
+  req: express.Request,
+  res: express.Response,
+): AlertOptions | undefined => {
+  if (!env.enableServiceAlerts) return undefined;
+  res.vary("Accept-Language");
+  return { languages: getPreferredLanguages(req) };
+};
+
+// When the realtime data in a response was produced, from the feed itself
+const realtimeFreshness = (type: RealtimeFeedType, req: express.Request) => {
+  const info = feedRegistry.getRealtimeFeedInfo(type, agencyFilter(req));
+  return {
+    lastUpdated: info?.lastUpdated ?? new Date().toISOString(),
+    feedAge: info?.feedAge,
+    stale: info?.stale ?? false,
+  };
+};
+
 // Initialize the service before starting the server
-gtfsService
+feedRegistry
   .initialize()
   .then(() => {
     console.log("✅ GTFS service initialized successfully");
 
     // Health check endpoint (no rate limiting)
     app.get("/api/health", (req, res) => {
+      const realtime = feedRegistry.getRealtimeFeedHealth();
+      const staleFeeds = Object.entries(realtime).flatMap(([agencyId, feeds]) =>
+        Object.entries(feeds)
+          .filter(([, health]) => health.status === "stale")
+          .map(([type]) => `${agencyId}/${type}`),
+      );
+      const unavailableAgencies = feedRegistry.getUnavailableAgencies();
+
       const healthData: any = {
-        status: "healthy",
+        status:
+          staleFeeds.length > 0 || unavailableAgencies.length > 0
+            ? "degraded"
+            : "healthy",
         timestamp: new Date().toISOString(),
         uptime: process.uptime(),
         version: "1.0.0",
@@ -219,6 +305,10 @@ gtfsService
           rateLimiting: env.rateLimitingEnabled,
           caching: env.cacheEnabled,
         },
+        staticData: feedRegistry.getStaticDataStatus(),
+        realtime,
+        ...(staleFeeds.length > 0 && { staleFeeds }),
+        ...(unavailableAgencies.length > 0 && { unavailableAgencies }),
       };
 
       if (isDevelopment()) {
@@ -242,17 +332,32 @@ gtfsService
           env.maxArrivalsPerRoute,
         );
 
+        const params = parseArrivalsParams(req, res);
+        if (!params) return;
+        const { mode, includeCancelled } = params;
+
         if (env.debug) {
           console.log(
-            `Arrivals request: stop=${req.params.stopId}, route=${routeId}, max=${maxArrivals}`,
+            `Arrivals request: stop=${req.params.stopId}, route=${routeId}, max=${maxArrivals}, mode=${mode}`,
           );
         }
 
-        const arrivals = await gtfsService.getNextArrivals(
-          req.params.stopId,
-          routeId as string,
-          maxArrivals,
-        );
+        const arrivals =
+          mode === "blended"
+            ? await feedRegistry.getBlendedArrivals(
+                req.params.stopId,
+                routeId as string,
+                maxArrivals,
+                { includeCancelled, alerts: attachedAlerts(req, res) },
+                agencyFilter(req),
+              )
+            : await feedRegistry.getNextArrivals(
+                req.params.stopId,
+                routeId as string,
+                maxArrivals,
+                { includeCancelled, alerts: attachedAlerts(req, res) },
+                agencyFilter(req),
+              );
 
         res.json(
           createSuccessResponse({
@@ -260,7 +365,8 @@ gtfsService
             arrivalCount: arrivals.length,
             arrivals: arrivals,
             isLiveData: true,
-            lastUpdated: new Date().toISOString(),
+            mode,
+            ...realtimeFreshness("tripUpdates", req),
             cacheTtl: env.cacheArrivalsTtl,
             ...(routeId && { routeFilter: routeId as string }),
           }),
@@ -272,9 +378,10 @@ gtfsService
     app.get(
       "/api/arrivals/:stopId/route/:routeId",
       handleAsync(async (req, res) => {
-        const arrivals = await gtfsService.getLiveArrivalsForRoute(
+        const arrivals = await feedRegistry.getLiveArrivalsForRoute(
           req.params.stopId,
           req.params.routeId,
+          agencyFilter(req),
         );
 
         res.json(
@@ -284,7 +391,7 @@ gtfsService
             arrivalCount: arrivals.length,
             arrivals: arrivals,
             isLiveData: true,
-            lastUpdated: new Date().toISOString(),
+            ...realtimeFreshness("tripUpdates", req),
           }),
         );
       }),
@@ -294,9 +401,10 @@ gtfsService
     app.get(
       "/api/arrivals/:stopId/route/:routeId/next",
       handleAsync(async (req, res) => {
-        const nextArrival = await gtfsService.getNextArrivalForRoute(
+        const nextArrival = await feedRegistry.getNextArrivalForRoute(
           req.params.stopId,
           req.params.routeId,
+          agencyFilter(req),
         );
 
         if (!nextArrival) {
@@ -312,7 +420,7 @@ gtfsService
             routeId: req.params.routeId,
             nextArrival: nextArrival,
             isLiveData: true,
-            lastUpdated: new Date().toISOString(),
+            ...realtimeFreshness("tripUpdates", req),
           }),
         );
       }),
@@ -322,22 +430,37 @@ gtfsService
     app.get(
       "/api/departures/:stopId",
       handleAsync(async (req, res) => {
-        const { routeId, max } = req.query;
+        const { routeId, max, date } = req.query;
         const maxDepartures = Math.min(
           validatePositiveInteger(max as string, 5),
           env.maxArrivalsPerRoute,
         );
 
+        const serviceDate = validateServiceDate(date as string);
+        if (serviceDate === null) {
+          res
+            .status(400)
+            .json(
+              createErrorResponse(
+                "Invalid date parameter",
+                "Provide the service date as YYYYMMDD",
+              ),
+            );
+          return;
+        }
+
         if (env.debug) {
           console.log(
-            `Departures request: stop=${req.params.stopId}, route=${routeId}, max=${maxDepartures}`,
+            `Departures request: stop=${req.params.stopId}, route=${routeId}, max=${maxDepartures}, date=${serviceDate}`,
           );
         }
 
-        const departures = await gtfsService.getScheduledDepartures(
+        const departures = await feedRegistry.getScheduledDepartures(
           req.params.stopId,
           routeId as string,
           maxDepartures,
+          serviceDate,
+          agencyFilter(req),
         );
 
         res.json(
@@ -349,6 +472,7 @@ gtfsService
             lastUpdated: new Date().toISOString(),
             cacheTtl: env.cacheStaticDataTtl,
             ...(routeId && { routeFilter: routeId as string }),
+            ...(serviceDate && { serviceDate }),
           }),
         );
       }),
@@ -358,9 +482,10 @@ gtfsService
     app.get(
       "/api/departures/:stopId/route/:routeId",
       handleAsync(async (req, res) => {
-        const departures = await gtfsService.getScheduledDeparturesForRoute(
+        const departures = await feedRegistry.getScheduledDeparturesForRoute(
           req.params.stopId,
           req.params.routeId,
+          agencyFilter(req),
         );
 
         res.json(
@@ -381,9 +506,10 @@ gtfsService
       "/api/departures/:stopId/route/:routeId/next",
       handleAsync(async (req, res) => {
         const nextDeparture =
-          await gtfsService.getNextScheduledDepartureForRoute(
+          await feedRegistry.getNextScheduledDepartureForRoute(
             req.params.stopId,
             req.params.routeId,
+            agencyFilter(req),
           );
 
         if (!nextDeparture) {
@@ -410,7 +536,7 @@ gtfsService
       app.get(
         "/api/stops/nearby",
         handleAsync(async (req, res) => {
-          const { lat, lon, radius } = req.query;
+          const { lat, lon, radius, limit } = req.query;
 
           const coordinates = validateLatLon(lat as string, lon as string);
           if (!coordinates) {
@@ -425,15 +551,25 @@ gtfsService
             return;
           }
 
+          // With a limit, the nearest stops are found out to the maximum
+          // radius unless a smaller one is given
+          const maxStops = limit
+            ? Math.min(validatePositiveInteger(limit as string, 10), 100)
+            : undefined;
           const radiusMeters = Math.min(
-            validatePositiveNumber(radius as string, 500),
+            validatePositiveNumber(
+              radius as string,
+              maxStops ? env.maxNearbyStopsRadius : 500,
+            ),
             env.maxNearbyStopsRadius,
           );
 
-          const nearbyStops = await gtfsService.getNearbyStops(
+          const nearbyStops = await feedRegistry.getNearbyStops(
             coordinates.lat,
             coordinates.lon,
             radiusMeters,
+            maxStops,
+            agencyFilter(req),
           );
 
           res.json(
@@ -444,19 +580,62 @@ gtfsService
               },
               radius: radiusMeters,
               maxRadius: env.maxNearbyStopsRadius,
+              ...(maxStops && { limit: maxStops }),
               stopCount: nearbyStops.length,
               stops: nearbyStops,
             }),
           );
         }),
       );
+
+      // Stops inside a bounding box, e.g. the visible area of a map
+      app.get(
+        "/api/stops/within",
+        handleAsync(async (req, res) => {
+          const { bbox, page = "1", limit = "100" } = req.query;
+
+          const bounds = validateBoundingBox(bbox as string);
+          if (!bounds) {
+            res
+              .status(400)
+              .json(
+                createErrorResponse(
+                  "Invalid or missing bbox parameter",
+                  "Provide bbox as minLon,minLat,maxLon,maxLat",
+                ),
+              );
+            return;
+          }
+
+          const pageNum = validatePositiveInteger(page as string, 1);
+          const limitNum = Math.min(
+            validatePositiveInteger(limit as string, 100),
+            500,
+          );
+
+          const stops = feedRegistry.getStopsInBounds(
+            bounds,
+            agencyFilter(req),
+          );
+          const startIndex = (pageNum - 1) * limitNum;
+
+          res.json(
+            createPaginatedResponse(
+              stops.slice(startIndex, startIndex + limitNum),
+              pageNum,
+              limitNum,
+              stops.length,
+            ),
+          );
+        }),
+      );
     }
 
     // Stop details endpoint
     app.get(
       "/api/stops/:stopId",
       handleAsync(async (req, res) => {
-        const stop = gtfsService.getStop(req.params.stopId);
+        const stop = feedRegistry.getStop(req.params.stopId, agencyFilter(req));
 
         if (!stop) {
           res.status(404).json(createErrorResponse("Stop not found"));
@@ -467,21 +646,165 @@ gtfsService
       }),
     );
 
+    // Station details with child platforms
+    app.get(
+      "/api/stations/:stationId",
+      handleAsync(async (req, res) => {
+        const station = feedRegistry.getStation(
+          req.params.stationId,
+          agencyFilter(req),
+        );
+
+        if (!station) {
+          res.status(404).json(createErrorResponse("Station not found"));
+          return;
+        }
+
+        res.json(
+          createSuccessResponse({
+            ...station,
+            platformCount: station.platforms.length,
+          }),
+        );
+      }),
+    );
+
+    // Live arrivals merged across all platforms of a station
+    app.get(
+      "/api/stations/:stationId/arrivals",
+      handleAsync(async (req, res) => {
+        const { routeId, max } = req.query;
+        const stationId = req.params.stationId;
+
+        if (!feedRegistry.getStation(stationId, agencyFilter(req))) {
+          res.status(404).json(createErrorResponse("Station not found"));
+          return;
+        }
+
+        const maxArrivals = Math.min(
+          validatePositiveInteger(max as string, 5),
+          env.maxArrivalsPerRoute,
+        );
+
+        const params = parseArrivalsParams(req, res);
+        if (!params) return;
+        const { mode, includeCancelled } = params;
+
+        const arrivals =
+          mode === "blended"
+            ? await feedRegistry.getBlendedArrivals(
+                stationId,
+                routeId as string,
+                maxArrivals,
+                { includeCancelled, alerts: attachedAlerts(req, res) },
+                agencyFilter(req),
+              )
+            : await feedRegistry.getNextArrivals(
+                stationId,
+                routeId as string,
+                maxArrivals,
+                { includeCancelled, alerts: attachedAlerts(req, res) },
+                agencyFilter(req),
+              );
+
+        res.json(
+          createSuccessResponse({
+            stationId,
+            arrivalCount: arrivals.length,
+            arrivals: arrivals,
+            isLiveData: true,
+            mode,
+            ...realtimeFreshness("tripUpdates", req),
+            cacheTtl: env.cacheArrivalsTtl,
+            ...(routeId && { routeFilter: routeId as string }),
+          }),
+        );
+      }),
+    );
+
+    // Scheduled departures merged across all platforms of a station
+    app.get(
+      "/api/stations/:stationId/departures",
+      handleAsync(async (req, res) => {
+        const { routeId, max, date } = req.query;
+        const stationId = req.params.stationId;
+
+        if (!feedRegistry.getStation(stationId, agencyFilter(req))) {
+          res.status(404).json(createErrorResponse("Station not found"));
+          return;
+        }
+
+        const maxDepartures = Math.min(
+          validatePositiveInteger(max as string, 5),
+          env.maxArrivalsPerRoute,
+        );
+
+        const serviceDate = validateServiceDate(date as string);
+        if (serviceDate === null) {
+          res
+            .status(400)
+            .json(
+              createErrorResponse(
+                "Invalid date parameter",
+                "Provide the service date as YYYYMMDD",
+              ),
+            );
+          return;
+        }
+
+        const departures = await feedRegistry.getScheduledDepartures(
+          stationId,
+          routeId as string,
+          maxDepartures,
+          serviceDate,
+          agencyFilter(req),
+        );
+
+        res.json(
+          createSuccessResponse({
+            stationId,
+            departureCount: departures.length,
+            departures: departures,
+            isLiveData: false,
+            lastUpdated: new Date().toISOString(),
+            cacheTtl: env.cacheStaticDataTtl,
+            ...(routeId && { routeFilter: routeId as string }),
+            ...(serviceDate && { serviceDate }),
+          }),
+        );
+      }),
+    );
+
     // Vehicle positions endpoint
     if (env.enableVehicleTracking) {
       app.get(
         "/api/vehicles",
         handleAsync(async (req, res) => {
           const { routeId } = req.query;
-          const vehicles = await gtfsService.getVehiclePositions(
+          const details = validateBoolean(req.query.details as string);
+          if (details === null) {
+            res
+              .status(400)
+              .json(
+                createErrorResponse(
+                  "Invalid details parameter",
+                  "Use true or false",
+                ),
+              );
+            return;
+          }
+
+          const vehicles = await feedRegistry.getVehiclePositions(
             routeId as string,
+            { details },
+            agencyFilter(req),
           );
 
           res.json(
             createSuccessResponse({
               vehicleCount: vehicles.length,
               vehicles: vehicles,
-              lastUpdated: new Date().toISOString(),
+              ...realtimeFreshness("vehiclePositions", req),
               cacheTtl: env.cacheVehiclesTtl,
               ...(routeId && { routeId: routeId as string }),
             }),
@@ -493,8 +816,23 @@ gtfsService
       app.get(
         "/api/vehicles/route/:routeId",
         handleAsync(async (req, res) => {
-          const vehicles = await gtfsService.getVehiclePositions(
+          const details = validateBoolean(req.query.details as string);
+          if (details === null) {
+            res
+              .status(400)
+              .json(
+                createErrorResponse(
+                  "Invalid details parameter",
+                  "Use true or false",
+                ),
+              );
+            return;
+          }
+
+          const vehicles = await feedRegistry.getVehiclePositions(
             req.params.routeId,
+            { details },
+            agencyFilter(req),
           );
 
           res.json(
@@ -502,7 +840,7 @@ gtfsService
               routeId: req.params.routeId,
               vehicleCount: vehicles.length,
               vehicles: vehicles,
-              lastUpdated: new Date().toISOString(),
+              ...realtimeFreshness("vehiclePositions", req),
             }),
           );
         }),
@@ -515,19 +853,70 @@ gtfsService
         "/api/alerts",
         handleAsync(async (req, res) => {
           const { routeId, stopId } = req.query;
-          const alerts = await gtfsService.getServiceAlerts(
+          const includeTranslations = validateBoolean(
+            req.query.translations as string,
+          );
+          if (includeTranslations === null) {
+            res
+              .status(400)
+              .json(
+                createErrorResponse(
+                  "Invalid translations parameter",
+                  "Use true or false",
+                ),
+              );
+            return;
+          }
+
+          const period = validateAlertPeriod(req.query.period as string);
+          if (period === null) {
+            res
+              .status(400)
+              .json(
+                createErrorResponse(
+                  "Invalid period parameter",
+                  "Use active, upcoming or all",
+                ),
+              );
+            return;
+          }
+
+          const at = validateTimestamp(req.query.at as string);
+          if (at === null) {
+            res
+              .status(400)
+              .json(
+                createErrorResponse(
+                  "Invalid at parameter",
+                  "Use a Unix timestamp or an ISO 8601 date",
+                ),
+              );
+            return;
+          }
+
+          const alerts = await feedRegistry.getServiceAlerts(
             routeId as string,
             stopId as string,
+            {
+              languages: getPreferredLanguages(req),
+              includeTranslations,
+              period,
+              at,
+            },
+            agencyFilter(req),
           );
 
+          res.vary("Accept-Language");
           res.json(
             createSuccessResponse({
               alertCount: alerts.length,
               alerts: alerts,
-              lastUpdated: new Date().toISOString(),
+              ...realtimeFreshness("alerts", req),
               cacheTtl: env.cacheAlertsTtl,
               ...(routeId && { routeId: routeId as string }),
               ...(stopId && { stopId: stopId as string }),
+              period,
+              ...(at !== undefined && { at }),
             }),
           );
         }),
@@ -545,7 +934,7 @@ gtfsService
           100,
         );
 
-        const allRoutes = gtfsService.getAllRoutes();
+        const allRoutes = feedRegistry.getAllRoutes(agencyFilter(req));
         const total = allRoutes.length;
         const startIndex = (pageNum - 1) * limitNum;
         const endIndex = startIndex + limitNum;
@@ -561,7 +950,10 @@ gtfsService
     app.get(
       "/api/routes/:routeId",
       handleAsync(async (req, res) => {
-        const route = gtfsService.getRoute(req.params.routeId);
+        const route = feedRegistry.getRoute(
+          req.params.routeId,
+          agencyFilter(req),
+        );
 
         if (!route) {
           res.status(404).json(createErrorResponse("Route not found"));
@@ -576,8 +968,9 @@ gtfsService
     app.get(
       "/api/routes/:routeId/stops",
       handleAsync(async (req, res) => {
-        const routeWithStops = gtfsService.getRouteWithStops(
+        const routeWithStops = feedRegistry.getRouteWithStops(
           req.params.routeId,
+          agencyFilter(req),
         );
 
         if (!routeWithStops) {
@@ -590,16 +983,61 @@ gtfsService
             route: routeWithStops.route,
             stopCount: routeWithStops.stops.length,
             stops: routeWithStops.stops,
+            direction0: routeWithStops.direction0,
+            direction1: routeWithStops.direction1,
+            directions: routeWithStops.directions,
           }),
         );
       }),
     );
 
+    // Route shapes endpoint (GeoJSON)
+    app.get(
+      "/api/routes/:routeId/shapes",
+      handleAsync(async (req, res) => {
+        const toleranceMeters = validatePositiveNumber(
+          req.query.simplify as string,
+          0,
+        );
+        const shapes = feedRegistry.getRouteShapes(
+          req.params.routeId,
+          toleranceMeters,
+          agencyFilter(req),
+        );
+
+        if (!shapes) {
+          res.status(404).json(createErrorResponse("Route not found"));
+          return;
+        }
+
+        res.json(createSuccessResponse(shapes));
+      }),
+    );
+
+    // Configured agencies endpoint
+    app.get("/api/agencies", (req, res) => {
+      const agencies = feedRegistry.getAgencies();
+
+      res.json(
+        createSuccessResponse({
+          agencyCount: agencies.length,
+          agencies,
+        }),
+      );
+    });
+
     // Trip details endpoint
     app.get(
       "/api/trips/:tripId",
       handleAsync(async (req, res) => {
-        const tripDetails = gtfsService.getTripDetails(req.params.tripId);
+        const tripDetails = await feedRegistry.getTripDetails(
+          req.params.tripId,
+          {
+            alerts: attachedAlerts(req, res),
+            vehicles: env.enableVehicleTracking,
+          },
+          agencyFilter(req),
+        );
 
         if (!tripDetails) {
           res.status(404).json(createErrorResponse("Trip not found"));
@@ -610,6 +1048,29 @@ gtfsService
       }),
     );
 
+    // Trip shape endpoint (GeoJSON)
+    app.get(
+      "/api/trips/:tripId/shape",
+      handleAsync(async (req, res) => {
+        const toleranceMeters = validatePositiveNumber(
+          req.query.simplify as string,
+          0,
+        );
+        const shape = feedRegistry.getTripShape(
+          req.params.tripId,
+          toleranceMeters,
+          agencyFilter(req),
+        );
+
+        if (!shape) {
+          res.status(404).json(createErrorResponse("Trip shape not found"));
+          return;
+        }
+
+        res.json(createSuccessResponse(shape));
+      }),
+    );
+
     // API documentation endpoint
     app.get("/api", (req, res) => {
       res.json(
@@ -619,6 +1080,9 @@ gtfsService
           environment: env.nodeEnv,
           documentation:
             "https://github.com/yourusername/pebble-transit-server",
+          agencies: feedRegistry.getAgencies().map((info) => info.agencyId),
+          commonParams:
+            "agency (optional filter, on every endpoint; with several agencies IDs are namespaced as <agency>:<id>)",
           features: {
             liveArrivals: true,
             vehicleTracking: env.enableVehicleTracking,
@@ -642,7 +1106,8 @@ gtfsService
               path: "/api/arrivals/:stopId",
               method: "GET",
               description: "Get next bus arrivals for a specific stop",
-              params: "routeId (optional filter), max (optional, default 5)",
+              params:
+                "routeId (optional filter), max (optional, default 5), mode (optional, live or blended, default live), includeCancelled (optional, default true)",
             },
             liveArrivalsForRoute: {
               path: "/api/arrivals/:stopId/route/:routeId",
@@ -658,7 +1123,8 @@ gtfsService
               path: "/api/departures/:stopId",
               method: "GET",
               description: "Get scheduled departures for a specific stop",
-              params: "routeId (optional filter), max (optional, default 5)",
+              params:
+                "routeId (optional filter), max (optional, default 5), date (optional service date, YYYYMMDD)",
             },
             scheduledDeparturesForRoute: {
               path: "/api/departures/:stopId/route/:routeId",
@@ -677,7 +1143,16 @@ gtfsService
                   path: "/api/stops/nearby",
                   method: "GET",
                   description: "Find stops near a location",
-                  params: "lat, lon, radius (optional, default 500m)",
+                  params:
+                    "lat, lon, radius (optional, default 500m), limit (optional, nearest N stops)",
+                }
+              : { disabled: true },
+            stopsWithin: env.enableNearbyStops
+              ? {
+                  path: "/api/stops/within",
+                  method: "GET",
+                  description: "Find stops inside a bounding box (paginated)",
+                  params: "bbox (minLon,minLat,maxLon,maxLat), page, limit",
                 }
               : { disabled: true },
             stopDetails: {
@@ -685,12 +1160,34 @@ gtfsService
               method: "GET",
               description: "Get details for a specific stop",
             },
+            stationDetails: {
+              path: "/api/stations/:stationId",
+              method: "GET",
+              description: "Get a station and its child platforms",
+            },
+            stationArrivals: {
+              path: "/api/stations/:stationId/arrivals",
+              method: "GET",
+              description:
+                "Get live arrivals merged across all platforms of a station",
+              params:
+                "routeId (optional filter), max (optional, default 5), mode (optional, live or blended, default live), includeCancelled (optional, default true)",
+            },
+            stationDepartures: {
+              path: "/api/stations/:stationId/departures",
+              method: "GET",
+              description:
+                "Get scheduled departures merged across all platforms of a station",
+              params:
+                "routeId (optional filter), max (optional, default 5), date (optional service date, YYYYMMDD)",
+            },
             vehicles: env.enableVehicleTracking
               ? {
                   path: "/api/vehicles",
                   method: "GET",
                   description: "Get real-time vehicle positions",
-                  params: "routeId (optional filter)",
+                  params:
+                    "routeId (optional filter), details (optional, true adds route, headsign, current stop and delay)",
                 }
               : { disabled: true },
             vehiclesByRoute: env.enableVehicleTracking
@@ -698,6 +1195,7 @@ gtfsService
                   path: "/api/vehicles/route/:routeId",
                   method: "GET",
                   description: "Get vehicles for a specific route",
+                  params: "details (optional)",
                 }
               : { disabled: true },
             alerts: env.enableServiceAlerts
@@ -705,7 +1203,8 @@ gtfsService
                   path: "/api/alerts",
                   method: "GET",
                   description: "Get service alerts",
-                  params: "routeId, stopId (optional filters)",
+                  params:
+                    "routeId, stopId (optional filters), period (optional: active, upcoming or all; default active), at (optional time, default now), lang (optional, overrides Accept-Language), translations (optional, true includes every language)",
                 }
               : { disabled: true },
             routes: {
@@ -722,7 +1221,26 @@ gtfsService
             routeStops: {
               path: "/api/routes/:routeId/stops",
               method: "GET",
-              description: "Get all stops for a specific route",
+              description:
+                "Get a route's stops in riding order, per direction and trip pattern",
+            },
+            routeShapes: {
+              path: "/api/routes/:routeId/shapes",
+              method: "GET",
+              description:
+                "Get a route's distinct shapes as a GeoJSON FeatureCollection",
+              params: "simplify (optional tolerance in meters)",
+            },
+            tripShape: {
+              path: "/api/trips/:tripId/shape",
+              method: "GET",
+              description: "Get a trip's shape as a GeoJSON LineString",
+              params: "simplify (optional tolerance in meters)",
+            },
+            agencies: {
+              path: "/api/agencies",
+              method: "GET",
+              description: "List configured agencies and their feed status",
             },
             tripDetails: {
               path: "/api/trips/:tripId",
@@ -798,6 +1316,7 @@ gtfsService
     // Graceful shutdown
     const gracefulShutdown = (signal: string) => {
       console.log(`\n📴 Received ${signal}, shutting down gracefully...`);
+      feedRegistry.shutdown();
 
       server.close((err) => {
         if (err) {
@@ -806,7 +1325,8 @@ gtfsService
         }
 
         console.log("✅ Server closed successfully");
-        process.exit(0);
+        // Let recordings still being written finish
+        Promise.resolve(realtimeRecorder?.flush()).then(() => process.exit(0));
       });
 
       // Force close after timeout
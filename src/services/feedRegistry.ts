@@ -0,0 +1,421 @@
+import { GTFSService, GTFSServiceConfig } from "./gtfsService";
+import { RealtimeFeedType } from "./realtimeFeed";
+import { GTFSFeedConfig } from "../config/environment";
+import {
+  AgencyInfo,
+  AlertOptions,
+  ArrivalOptions,
+  BusArrival,
+  BusDeparture,
+  GTFSRoute,
+  GTFSStop,
+  NearbyStop,
+  RouteWithStops,
+  ServiceAlert,
+  ShapeFeature,
+  ShapeFeatureCollection,
+  RealtimeEventMap,
+  RealtimeFeedInfo,
+  RealtimeFeedHealth,
+  StaticDataStatus,
+  StationDetails,
+  TripDetails,
+  TripDetailsOptions,
+  VehicleOptions,
+  VehiclePosition,
+} from "../types/gtfs";
+import { BoundingBox } from "../utils/spatialGrid";
+
+export type FeedRegistryConfig = Pick<
+  GTFSServiceConfig,
+  | "realtimeCacheTtls"
+  | "realtimePollIntervals"
+  | "realtimeStaleThreshold"
+  | "realtimeRecorder"
+  | "staticRefreshInterval"
+  | "snapshotPath"
+>;
+
+// Owns one GTFSService per configured agency feed. With several feeds, every
+// ID is namespaced as "<agencyId>:<id>" and requests for a specific stop,
+// route or trip go to the agency named by the prefix; list requests fan out
+// to all agencies (or just the one given as the agency filter).
+export class FeedRegistry {
+  private readonly services: Map<string, GTFSService>;
+  private readonly namespaced: boolean;
+
+  constructor(feeds: GTFSFeedConfig[], config: FeedRegistryConfig = {}) {
+    this.namespaced = feeds.length > 1;
+    this.services = new Map();
+
+    feeds.forEach((feed) => {
+      this.services.set(
+        feed.id,
+        new GTFSService(feed.tripUpdatesUrl, feed.staticUrl, {
+          ...config,
+          agencyId: feed.id,
+          namespaceIds: this.namespaced,
+          vehiclePositionsUrl: feed.vehiclePositionsUrl,
+          alertsUrl: feed.alertsUrl,
+          snapshotPath: this.snapshotPathFor(feed.id, config.snapshotPath),
+        }),
+      );
+    });
+  }
+
+  // An agency whose static data can't be loaded (no snapshot and upstream
+  // unreachable) stays registered but serves nothing until its static
+  // refresh retries the load, rather than keeping the others from serving;
+  // only fail if no agency loaded
+  async initialize(): Promise<void> {
+    const entries = Array.from(this.services.entries());
+    const results = await Promise.allSettled(
+      entries.map(([, service]) => service.initialize()),
+    );
+
+    results.forEach((result, index) => {
+      if (result.status === "fulfilled") return;
+      const [agencyId] = entries[index];
+      console.error(
+        `Failed to load agency ${agencyId}, retrying on the static refresh interval:`,
+        result.reason,
+      );
+    });
+
+    if (results.every((result) => result.status === "rejected")) {
+      throw (results[0] as PromiseRejectedResult).reason;
+    }
+  }
+
+  shutdown(): void {
+    this.services.forEach((service) => service.shutdown());
+  }
+
+  // Subscribe to realtime change events from every agency
+  on<K extends keyof RealtimeEventMap>(
+    event: K,
+    listener: (payload: RealtimeEventMap[K]) => void,
+  ): this {
+    this.services.forEach((service) => service.on(event, listener));
+    return this;
+  }
+
+  off<K extends keyof RealtimeEventMap>(
+    event: K,
+    listener: (payload: RealtimeEventMap[K]) => void,
+  ): this {
+    this.services.forEach((service) => service.off(event, listener));
+    return this;
+  }
+
+  hasAgency(agencyId: string): boolean {
+    return this.services.has(agencyId);
+  }
+
+  getAgencies(): AgencyInfo[] {
+    return Array.from(this.services.values()).map((service) =>
+      service.getAgencyInfo(),
+    );
+  }
+
+  // Each agency needs its own snapshot file
+  private snapshotPathFor(
+    agencyId: string,
+    snapshotPath?: string,
+  ): string | undefined {
+    if (!snapshotPath || !this.namespaced) return snapshotPath;
+    return snapshotPath.replace(/(\.json(\.gz)?)?$/, `-${agencyId}$1`);
+  }
+
+  // Agencies without static data yet are skipped by every query
+  private servicesFor(agencyId?: string): GTFSService[] {
+    if (agencyId) {
+      const service = this.services.get(agencyId);
+      return service?.isStaticDataLoaded() ? [service] : [];
+    }
+    return Array.from(this.services.values()).filter((service) =>
+      service.isStaticDataLoaded(),
+    );
+  }
+
+  // The service owning a (possibly namespaced) ID, if it matches the filter
+  private serviceFor(id: string, agencyId?: string): GTFSService | undefined {
+    let service: GTFSService | undefined;
+    if (this.namespaced) {
+      const separator = id.indexOf(":");
+      service =
+        separator > 0 ? this.services.get(id.slice(0, separator)) : undefined;
+    } else {
+      service = this.services.values().next().value;
+    }
+
+    if (
+      !service ||
+      !service.isStaticDataLoaded() ||
+      (agencyId && service.getAgencyId() !== agencyId)
+    ) {
+      return undefined;
+    }
+    return service;
+  }
+
+  // Run a realtime query against several agencies. One agency's feed being
+  // down should not hide the others, so only fail if every agency failed.
+  private async collectFromAll<T>(
+    services: GTFSService[],
+    query: (service: GTFSService) => Promise<T[]>,
+  ): Promise<T[]> {
+    const results = await Promise.allSettled(services.map(query));
+    const failures = results.filter(
+      (result): result is PromiseRejectedResult => result.status === "rejected",
+    );
+
+    if (failures.length > 0 && failures.length === results.length) {
+      throw failures[0].reason;
+    }
+    failures.forEach((failure) =>
+      console.error("Agency feed request failed:", failure.reason),
+    );
+
+    return results.flatMap((result) =>
+      result.status === "fulfilled" ? result.value : [],
+    );
+  }
+
+  // Agencies whose static data hasn't loaded yet, so they serve nothing
+  getUnavailableAgencies(): string[] {
+    return Array.from(this.services.entries())
+      .filter(([, service]) => !service.isStaticDataLoaded())
+      .map(([agencyId]) => agencyId);
+  }
+
+  getStaticDataStatus(): Record<string, StaticDataStatus> {
+    return Object.fromEntries(
+      Array.from(this.services.entries()).map(([agencyId, service]) => [
+        agencyId,
+        service.getStaticDataStatus(),
+      ]),
+    );
+  }
+
+  getRealtimeFeedHealth(): Record<
+    string,
+    Record<RealtimeFeedType, RealtimeFeedHealth>
+  > {
+    return Object.fromEntries(
+      Array.from(this.services.entries()).map(([agencyId, service]) => [
+        agencyId,
+        service.getRealtimeFeedHealth(),
+      ]),
+    );
+  }
+
+  // Realtime data age for a feed type; across several agencies, the oldest
+  getRealtimeFeedInfo(
+    type: RealtimeFeedType,
+    agencyId?: string,
+  ): RealtimeFeedInfo | undefined {
+    let oldest: RealtimeFeedInfo | undefined;
+    for (const service of this.servicesFor(agencyId)) {
+      const info = service.getRealtimeFeedInfo(type);
+      if (info && (!oldest || info.feedAge > oldest.feedAge)) {
+        oldest = info;
+      }
+    }
+    return oldest;
+  }
+
+  async getNextArrivals(
+    stopId: string,
+    routeFilter?: string,
+    maxArrivals: number = 5,
+    options: ArrivalOptions = {},
+    agencyId?: string,
+  ): Promise<BusArrival[]> {
+    const service = this.serviceFor(stopId, agencyId);
+    return service
+      ? service.getNextArrivals(stopId, routeFilter, maxArrivals, options)
+      : [];
+  }
+
+  async getBlendedArrivals(
+    stopId: string,
+    routeFilter?: string,
+    maxArrivals: number = 5,
+    options: ArrivalOptions = {},
+    agencyId?: string,
+  ): Promise<BusArrival[]> {
+    const service = this.serviceFor(stopId, agencyId);
+    return service
+      ? service.getBlendedArrivals(stopId, routeFilter, maxArrivals, options)
+      : [];
+  }
+
+  async getLiveArrivalsForRoute(
+    stopId: string,
+    routeId: string,
+    agencyId?: string,
+  ): Promise<BusArrival[]> {
+    const service = this.serviceFor(stopId, agencyId);
+    return service ? service.getLiveArrivalsForRoute(stopId, routeId) : [];
+  }
+
+  async getNextArrivalForRoute(
+    stopId: string,
+    routeId: string,
+    agencyId?: string,
+  ): Promise<BusArrival | null> {
+    const service = this.serviceFor(stopId, agencyId);
+    return service ? service.getNextArrivalForRoute(stopId, routeId) : null;
+  }
+
+  async getScheduledDepartures(
+    stopId: string,
+    routeFilter?: string,
+    maxDepartures: number = 5,
+    serviceDate?: string,
+    agencyId?: string,
+  ): Promise<BusDeparture[]> {
+    const service = this.serviceFor(stopId, agencyId);
+    return service
+      ? service.getScheduledDepartures(
+          stopId,
+          routeFilter,
+          maxDepartures,
+          serviceDate,
+        )
+      : [];
+  }
+
+  async getScheduledDeparturesForRoute(
+    stopId: string,
+    routeId: string,
+    agencyId?: string,
+  ): Promise<BusDeparture[]> {
+    const service = this.serviceFor(stopId, agencyId);
+    return service
+      ? service.getScheduledDeparturesForRoute(stopId, routeId)
+      : [];
+  }
+
+  async getNextScheduledDepartureForRoute(
+    stopId: string,
+    routeId: string,
+    agencyId?: string,
+  ): Promise<BusDeparture | null> {
+    const service = this.serviceFor(stopId, agencyId);
+    return service
+      ? service.getNextScheduledDepartureForRoute(stopId, routeId)
+      : null;
+  }
+
+  async getNearbyStops(
+    latitude: number,
+    longitude: number,
+    radiusMeters: number = 500,
+    limit?: number,
+    agencyId?: string,
+  ): Promise<NearbyStop[]> {
+    const nearbyStops = await this.collectFromAll(
+      this.servicesFor(agencyId),
+      (service) =>
+        service.getNearbyStops(latitude, longitude, radiusMeters, limit),
+    );
+    nearbyStops.sort((a, b) => a.distance - b.distance);
+    return limit ? nearbyStops.slice(0, limit) : nearbyStops;
+  }
+
+  getStopsInBounds(bounds: BoundingBox, agencyId?: string): GTFSStop[] {
+    return this.servicesFor(agencyId).flatMap((service) =>
+      service.getStopsInBounds(bounds),
+    );
+  }
+
+  async getVehiclePositions(
+    routeId?: string,
+    options: VehicleOptions = {},
+    agencyId?: string,
+  ): Promise<VehiclePosition[]> {
+    if (routeId) {
+      const service = this.serviceFor(routeId, agencyId);
+      return service ? service.getVehiclePositions(routeId, options) : [];
+    }
+
+    return this.collectFromAll(this.servicesFor(agencyId), (service) =>
+      service.getVehiclePositions(undefined, options),
+    );
+  }
+
+  async getServiceAlerts(
+    routeId?: string,
+    stopId?: string,
+    options: AlertOptions = {},
+    agencyId?: string,
+  ): Promise<ServiceAlert[]> {
+    const filterId = routeId || stopId;
+    if (filterId) {
+      const service = this.serviceFor(filterId, agencyId);
+      return service ? service.getServiceAlerts(routeId, stopId, options) : [];
+    }
+
+    return this.collectFromAll(this.servicesFor(agencyId), (service) =>
+      service.getServiceAlerts(undefined, undefined, options),
+    );
+  }
+
+  getStop(stopId: string, agencyId?: string): GTFSStop | undefined {
+    return this.serviceFor(stopId, agencyId)?.getStop(stopId);
+  }
+
+  getStation(stationId: string, agencyId?: string): StationDetails | undefined {
+    return this.serviceFor(stationId, agencyId)?.getStation(stationId);
+  }
+
+  getAllRoutes(agencyId?: string): GTFSRoute[] {
+    return this.servicesFor(agencyId).flatMap((service) =>
+      service.getAllRoutes(),
+    );
+  }
+
+  getRoute(routeId: string, agencyId?: string): GTFSRoute | undefined {
+    return this.serviceFor(routeId, agencyId)?.getRoute(routeId);
+  }
+
+  getRouteWithStops(
+    routeId: string,
+    agencyId?: string,
+  ): RouteWithStops | undefined {
+    return this.serviceFor(routeId, agencyId)?.getRouteWithStops(routeId);
+  }
+
+  async getTripDetails(
+    tripId: string,
+    options: TripDetailsOptions = {},
+    agencyId?: string,
+  ): Promise<TripDetails | undefined> {
+    const service = this.serviceFor(tripId, agencyId);
+    return service ? service.getTripDetails(tripId, options) : undefined;
+  }
+
+  getRouteShapes(
+    routeId: string,
+    toleranceMeters?: number,
+    agencyId?: string,
+  ): ShapeFeatureCollection | undefined {
+    return this.serviceFor(routeId, agencyId)?.getRouteShapes(
+      routeId,
+      toleranceMeters,
+    );
+  }
+
+  getTripShape(
+    tripId: string,
+    toleranceMeters?: number,
+    agencyId?: string,
+  ): ShapeFeature | undefined {
+    return this.serviceFor(tripId, agencyId)?.getTripShape(
+      tripId,
+      toleranceMeters,
+    );
+  }
+}
@@ -1,4 +1,3 @@
-import fetch from "node-fetch";
 import GtfsRealtimeBindings from "gtfs-realtime-bindings";
 import {
   BusArrival,
@@ -7,19 +6,163 @@ import {
   GTFSTrip,
   GTFSStop,
   GTFSStopTime,
+  GTFSFrequency,
   VehiclePosition,
+  VehicleOptions,
+  VehicleStop,
   ServiceAlert,
+  AlertOptions,
+  AlertPeriodFilter,
+  AlertText,
   NearbyStop,
   RouteWithStops,
+  RouteDirection,
+  StationDetails,
   TripDetails,
+  TripDetailsOptions,
+  TripStopStatus,
+  StaticDataStatus,
+  RealtimeFeedInfo,
+  RealtimeFeedHealth,
+  RealtimeEventMap,
+  AgencyInfo,
+  ArrivalOptions,
+  ArrivalSource,
+  ShapeFeature,
+  ShapeFeatureCollection,
+  ShapeProperties,
+  TripFrequency,
 } from "../types/gtfs";
-import JSZip from "jszip";
+import { LonLat, simplifyLineString } from "../utils/geo";
+import { BoundingBox } from "../utils/spatialGrid";
+import { GtfsFileSource, openStaticFeed } from "./gtfsSource";
+import {
+  FeedEntity,
+  FeedMessage,
+  RealtimeFeedCache,
+  hasField,
+  RealtimeFeedSnapshot,
+  RealtimeFeedType,
+  StopTimeUpdate,
+  TripUpdate,
+  updatedAt,
+} from "./realtimeFeed";
+import { RealtimeRecorder } from "./realtimeRecorder";
+import { TypedEventEmitter } from "../utils/typedEmitter";
+import {
+  RoutePattern,
+  StaticGtfsData,
+  StopDeparture,
+  createEmptyStaticData,
+  createStopGrid,
+} from "./staticData";
+import { loadStaticSnapshot, saveStaticSnapshot } from "./staticSnapshot";
+import { parseCsv, CsvRecord, CsvParseResult } from "../utils/csv";
+import { pickTranslation } from "../utils/language";
+import {
+  addServiceDays,
+  formatGtfsTime,
+  formatServiceDate,
+  getServiceDateWeekday,
+  getServiceDayStart,
+  isValidTimeZone,
+  parseGtfsTimeOfDay,
+} from "../utils/gtfsTime";
 
 export interface GTFSServiceConfig {
+  agencyId?: string; // Configured feed ID, e.g. "victoria"
+  namespaceIds?: boolean; // Prefix all IDs with "<agencyId>:"
   vehiclePositionsUrl?: string;
   alertsUrl?: string;
-  cacheTtl?: number;
+  realtimeCacheTtls?: Partial<Record<RealtimeFeedType, number>>; // Per feed, in ms; 0 = not cached
+  realtimePollIntervals?: Partial<Record<RealtimeFeedType, number>>; // In ms, 0 = not polled
+  realtimeStaleThreshold?: number; // ms; older realtime data is reported stale
+  realtimeRecorder?: RealtimeRecorder; // Archives every realtime payload fetched
   staticRefreshInterval?: number;
+  snapshotPath?: string; // Where to persist parsed static data, if anywhere
+}
+
+// A scheduled departure of one trip instance from a stop
+interface ScheduledStopDeparture {
+  time: number; // Unix timestamp
+  tripId: string;
+  stopId: string;
+  stopSequence: number;
+  serviceDate: string;
+  headwaySecs?: number; // Set for headway-based service without exact times
+}
+
+// One entry of an arrivals list, before formatting
+interface ArrivalCandidate {
+  time: number; // Predicted time if there is one, otherwise scheduled
+  tripId: string;
+  headsign?: string; // Defaults to the static trip's
+  isExtraService?: boolean;
+  stopId: string;
+  source: ArrivalSource;
+  skipped?: boolean; // The trip no longer stops here
+  scheduledTime?: number;
+  delay?: number;
+  uncertainty?: number;
+}
+
+// A trip as described by a trip update, resolved against the static data
+interface RealtimeTrip {
+  tripId: string; // For duplicated trips, the new trip's ID
+  trip: GTFSTrip; // The static trip, or one built from the update
+  templateTripId?: string; // Static trip whose stop times it runs, if any
+  startDate?: string;
+  startTime?: string;
+  isExtraService: boolean; // Added, duplicated or new trip
+  update: TripUpdate;
+}
+
+// The realtime prediction for one stop of a trip
+interface TripStopPrediction {
+  stopId: string;
+  stopSequence: number;
+  scheduledTime?: number; // Unknown for frequency-based trips without a start time
+  time?: number; // Predicted time, if there is a prediction
+  delay?: number;
+  uncertainty?: number;
+  skipped: boolean;
+  propagated: boolean; // The delay was carried forward from an earlier stop
+}
+
+// What an alert is checked against; fields left out are unknown
+interface AlertTarget {
+  routeId?: string;
+  stopIds?: Set<string>;
+  tripId?: string;
+  directionId?: number;
+}
+
+const TripRelationship =
+  GtfsRealtimeBindings.transit_realtime.TripDescriptor.ScheduleRelationship;
+
+// NEW trips (which replace ADDED in newer versions of the spec) are missing
+// from the bindings' enum, but still decode with their numeric value
+const NEW_TRIP_RELATIONSHIP = 8;
+
+// How far back to look for scheduled departures that may be running late
+const BLENDED_LOOKBACK_SECS = 1800;
+
+// Realtime cache TTLs (ms) for feeds without one in the config
+const DEFAULT_REALTIME_CACHE_TTLS: Record<RealtimeFeedType, number> = {
+  tripUpdates: 30000,
+  vehiclePositions: 15000,
+  alerts: 60000,
+};
+
+// Service dates whose active service IDs stay memoized: yesterday, today and
+// tomorrow plus a few dates clients asked for, least recently used dropped
+const ACTIVE_SERVICES_CACHE_SIZE = 8;
+
+// Parse an optional integer GTFS field, treating blanks as absent
+function parseOptionalInt(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const parsed = parseInt(value, 10);
+  return isNaN(parsed) ? undefined : parsed;
 }
 
 export class GTFSService {
@@ -27,459 +170,1934 @@ export class GTFSService {
   private readonly vehiclePositionsUrl: string;
   private readonly alertsUrl: string;
   private readonly staticGtfsUrl: string;
+  private readonly realtimeFeeds: Record<RealtimeFeedType, RealtimeFeedCache>;
+  private readonly events = new TypedEventEmitter<RealtimeEventMap>();
+  // Latest per-trip delays, vehicles and alerts, diffed against each new feed
+  private readonly realtimeState = {
+    tripDelays: new Map<string, number>(),
+    vehicles: new Map<string, VehiclePosition>(),
+    alerts: new Map<string, ServiceAlert>(),
+    received: new Set<RealtimeFeedType>(),
+  };
+  private pollTimers: NodeJS.Timeout[] = [];
   private readonly config: GTFSServiceConfig;
-  private routes: Map<string, GTFSRoute>;
-  private trips: Map<string, GTFSTrip>;
-  private stops: Map<string, GTFSStop>;
-  private stopTimes: Map<string, GTFSStopTime[]>; // tripId -> stopTimes
-  private routeStops: Map<string, string[]>; // routeId -> stopIds
+  private readonly agencyId: string;
+  private readonly idPrefix: string;
+  private data: StaticGtfsData;
+  private refreshTimer?: NodeJS.Timeout;
+  private refreshInProgress?: Promise<void>;
+  private lastStaticCheckAt?: number;
+  private lastStaticError?: { message: string; at: number };
+  private staticLoadedFrom?: "upstream" | "snapshot";
 
   constructor(
     feedUrl: string,
     staticGtfsUrl: string,
     config: GTFSServiceConfig = {},
   ) {
-    // Parse base URL for different feed types
-    const baseUrl = feedUrl.replace("/tripupdates.pb", "");
+    // Derive the other feed URLs from the trip updates URL, keeping its query
+    // string (e.g. operatorIds) so each agency gets its own feeds
     this.tripUpdatesUrl = feedUrl;
     this.vehiclePositionsUrl =
       config.vehiclePositionsUrl ||
-      `${baseUrl}/vehiclepositions.pb?operatorIds=48`;
-    this.alertsUrl = config.alertsUrl || `${baseUrl}/alerts.pb?operatorIds=48`;
+      feedUrl.replace("/tripupdates.pb", "/vehiclepositions.pb");
+    this.alertsUrl =
+      config.alertsUrl || feedUrl.replace("/tripupdates.pb", "/alerts.pb");
     this.staticGtfsUrl = staticGtfsUrl;
     this.config = config;
-    this.routes = new Map();
-    this.trips = new Map();
-    this.stops = new Map();
-    this.stopTimes = new Map();
-    this.routeStops = new Map();
+
+    const ttl = (type: RealtimeFeedType) =>
+      config.realtimeCacheTtls?.[type] ?? DEFAULT_REALTIME_CACHE_TTLS[type];
+    const onUpdate =
+      (type: RealtimeFeedType) => (snapshot: RealtimeFeedSnapshot) =>
+        this.handleRealtimeUpdate(type, snapshot);
+    const recorder = config.realtimeRecorder;
+    const onPayload = (type: RealtimeFeedType) =>
+      recorder &&
+      ((payload: Uint8Array, fetchedAt: number) =>
+        recorder.record({
+          agencyId: this.agencyId,
+          feed: type,
+          fetchedAt,
+          payload: Buffer.from(payload),
+        }));
+    this.realtimeFeeds = {
+      tripUpdates: new RealtimeFeedCache(
+        this.tripUpdatesUrl,
+        ttl("tripUpdates"),
+        "trip updates",
+        onUpdate("tripUpdates"),
+        onPayload("tripUpdates"),
+      ),
+      vehiclePositions: new RealtimeFeedCache(
+        this.vehiclePositionsUrl,
+        ttl("vehiclePositions"),
+        "vehicle positions",
+        onUpdate("vehiclePositions"),
+        onPayload("vehiclePositions"),
+      ),
+      alerts: new RealtimeFeedCache(
+        this.alertsUrl,
+        ttl("alerts"),
+        "service alerts",
+        onUpdate("alerts"),
+        onPayload("alerts"),
+      ),
+    };
+    this.agencyId = config.agencyId || "default";
+    this.idPrefix = config.namespaceIds ? `${this.agencyId}:` : "";
+    this.data = createEmptyStaticData();
   }
 
+  // Rejects if there is no snapshot and the first upstream load fails. The
+  // refresh timer still starts, so the load is retried on its interval.
   async initialize(): Promise<void> {
-    // Load static GTFS route and trip data
-    await this.loadStaticData();
+    try {
+      // Serve from the last snapshot straight away if there is one, and only
+      // block on the upstream download when there isn't
+      const snapshot = await this.readSnapshot();
+      if (snapshot) {
+        this.data = snapshot;
+        this.staticLoadedFrom = "snapshot";
+        console.log(
+          `Loaded static GTFS version ${snapshot.feedVersion} from snapshot, checking upstream in the background`,
+        );
+        this.refreshStaticData().catch(() => {
+          // Already logged; keep serving the snapshot
+        });
+      } else {
+        await this.refreshStaticData();
+      }
+    } finally {
+      this.startStaticRefresh();
+      this.startRealtimePolling();
+    }
   }
 
-  private async loadStaticData(): Promise<void> {
-    console.log(`Loading GTFS zip from: ${this.staticGtfsUrl}`);
+  // False until static data has loaded from a snapshot or upstream
+  isStaticDataLoaded(): boolean {
+    return this.staticLoadedFrom !== undefined;
+  }
 
-    try {
-      const response = await fetch(this.staticGtfsUrl);
-      if (!response.ok) {
-        throw new Error(
-          `Failed to fetch GTFS zip: ${response.status} ${response.statusText}`,
-        );
+  on<K extends keyof RealtimeEventMap>(
+    event: K,
+    listener: (payload: RealtimeEventMap[K]) => void,
+  ): this {
+    this.events.on(event, listener);
+    return this;
+  }
+
+  off<K extends keyof RealtimeEventMap>(
+    event: K,
+    listener: (payload: RealtimeEventMap[K]) => void,
+  ): this {
+    this.events.off(event, listener);
+    return this;
+  }
+
+  // Fetch each realtime feed that has a poll interval on that schedule, so
+  // the cache stays warm and change events fire without client requests
+  private startRealtimePolling(): void {
+    const intervals = this.config.realtimePollIntervals || {};
+
+    for (const type of Object.keys(this.realtimeFeeds) as RealtimeFeedType[]) {
+      const interval = intervals[type];
+      if (!interval || interval <= 0) continue;
+
+      const poll = () => {
+        this.realtimeFeeds[type].refresh().catch((error) => {
+          console.warn(
+            `Realtime poll of ${type} failed:`,
+            error instanceof Error ? error.message : error,
+          );
+        });
+      };
+
+      poll();
+      const timer = setInterval(poll, interval);
+      // Don't keep the process alive just for polling
+      timer.unref();
+      this.pollTimers.push(timer);
+      console.log(`Polling ${type} every ${interval}ms`);
+    }
+  }
+
+  private handleRealtimeUpdate(
+    type: RealtimeFeedType,
+    { feed }: RealtimeFeedSnapshot,
+  ): void {
+    // The first feed of each type only sets the baseline
+    const emit = this.realtimeState.received.has(type);
+    this.realtimeState.received.add(type);
+
+    switch (type) {
+      case "tripUpdates":
+        this.diffTripDelays(feed, emit);
+        break;
+      case "vehiclePositions":
+        this.diffVehicles(feed, emit);
+        break;
+      case "alerts":
+        this.diffAlerts(feed, emit);
+        break;
+    }
+  }
+
+  private diffTripDelays(feed: FeedMessage, emit: boolean): void {
+    const previous = this.realtimeState.tripDelays;
+    const current = new Map<string, number>();
+
+    for (const entity of feed.entity) {
+      const tripUpdate = entity.tripUpdate;
+      const tripId = this.scopeOptionalId(tripUpdate?.trip?.tripId);
+      if (!tripUpdate || !tripId) continue;
+
+      // Trip-level delay if given, otherwise the first stop prediction's
+      let delay: number | undefined;
+      if (hasField(tripUpdate, "delay")) {
+        delay = tripUpdate.delay!;
+      } else {
+        for (const update of tripUpdate.stopTimeUpdate || []) {
+          const event = hasField(update.arrival, "delay")
+            ? update.arrival
+            : hasField(update.departure, "delay")
+              ? update.departure
+              : undefined;
+          if (event) {
+            delay = event.delay!;
+            break;
+          }
+        }
       }
+      if (delay === undefined) continue;
 
-      const buffer = await response.buffer();
-      console.log(`Received zip data of size: ${buffer.length} bytes`);
+      current.set(tripId, delay);
+      if (emit && previous.get(tripId) !== delay) {
+        this.events.emit("tripDelayChanged", {
+          agencyId: this.agencyId,
+          tripId,
+          routeId: this.scopeOptionalId(tripUpdate.trip.routeId),
+          previousDelay: previous.get(tripId),
+          delay,
+          timestamp: tripUpdate.timestamp
+            ? Number(tripUpdate.timestamp)
+            : Math.floor(Date.now() / 1000),
+        });
+      }
+    }
 
-      const zip = new JSZip();
-      const zipData = await zip.loadAsync(buffer);
+    this.realtimeState.tripDelays = current;
+  }
 
-      // Load all GTFS files
-      await this.loadRoutes(zipData);
-      await this.loadTrips(zipData);
-      await this.loadStops(zipData);
-      await this.loadStopTimes(zipData);
-      await this.buildRouteStopsMapping();
-    } catch (error) {
-      console.error("Error loading GTFS data:", error);
-      throw error;
+  private diffVehicles(feed: FeedMessage, emit: boolean): void {
+    const previous = this.realtimeState.vehicles;
+    const current = new Map<string, VehiclePosition>();
+
+    for (const entity of feed.entity) {
+      const vehicle = this.toVehiclePosition(entity);
+      if (!vehicle) continue;
+
+      const last = previous.get(vehicle.vehicleId);
+      current.set(vehicle.vehicleId, vehicle);
+      if (
+        emit &&
+        (!last ||
+          last.latitude !== vehicle.latitude ||
+          last.longitude !== vehicle.longitude)
+      ) {
+        this.events.emit("vehicleMoved", {
+          agencyId: this.agencyId,
+          vehicle,
+          previous: last,
+        });
+      }
     }
+
+    this.realtimeState.vehicles = current;
   }
 
-  private async loadRoutes(zipData: JSZip): Promise<void> {
-    const routesFile = zipData.file("routes.txt");
-    if (!routesFile) {
-      throw new Error("routes.txt not found in GTFS zip");
+  private diffAlerts(feed: FeedMessage, emit: boolean): void {
+    const previous = this.realtimeState.alerts;
+    const current = new Map<string, ServiceAlert>();
+
+    for (const entity of feed.entity) {
+      if (!entity.alert) continue;
+      const alert = this.toServiceAlert(entity.id, entity.alert);
+      current.set(alert.alertId, alert);
+      if (emit && !previous.has(alert.alertId)) {
+        this.events.emit("alertAdded", { agencyId: this.agencyId, alert });
+      }
     }
 
-    const routesData = await routesFile.async("string");
-    console.log("Processing routes.txt...");
+    if (emit) {
+      for (const [alertId, alert] of previous) {
+        if (!current.has(alertId)) {
+          this.events.emit("alertRemoved", { agencyId: this.agencyId, alert });
+        }
+      }
+    }
+
+    this.realtimeState.alerts = current;
+  }
+
+  getAgencyId(): string {
+    return this.agencyId;
+  }
 
-    const lines = routesData.split("\n");
-    const header = lines[0].trim();
-    console.log("Routes header:", header);
+  getAgencyInfo(): AgencyInfo {
+    return {
+      agencyId: this.agencyId,
+      namespaced: this.idPrefix !== "",
+      timeZone: this.data.timeZone,
+      routeCount: this.data.routes.size,
+      stopCount: this.data.stops.size,
+      staticData: this.getStaticDataStatus(),
+    };
+  }
 
-    lines.slice(1).forEach((line, index) => {
-      if (line.trim()) {
-        const fields = line.split(",");
-        if (fields.length >= 6) {
-          const routeId = fields[0].trim();
-          const shortName = fields[1].trim();
-          const longName = fields[2].trim();
-          const routeColor = fields[4].trim();
-          const routeTextColor = fields[5].trim();
+  // Age of the realtime data last served for a feed type, or undefined if
+  // it has not been fetched yet
+  getRealtimeFeedInfo(type: RealtimeFeedType): RealtimeFeedInfo | undefined {
+    const snapshot = this.realtimeFeeds[type].peek();
+    if (!snapshot) return undefined;
 
-          this.routes.set(routeId, {
-            routeId,
-            shortName,
-            longName,
-            routeColor: routeColor || "000000",
-            routeTextColor: routeTextColor || "FFFFFF",
-          });
+    const lastUpdated = updatedAt(snapshot);
+    return {
+      lastUpdated: new Date(lastUpdated).toISOString(),
+      fetchedAt: new Date(snapshot.fetchedAt).toISOString(),
+      feedAge: Math.max(0, Math.round((Date.now() - lastUpdated) / 1000)),
+      stale: Date.now() - lastUpdated > this.realtimeStaleThreshold,
+    };
+  }
+
+  // Fetch history and freshness of each realtime feed. Staleness is judged
+  // as of the last fetch, so a feed nobody has needed for a while isn't
+  // reported stale just because its cached copy has aged.
+  getRealtimeFeedHealth(): Record<RealtimeFeedType, RealtimeFeedHealth> {
+    const toIso = (time?: number) =>
+      time ? new Date(time).toISOString() : undefined;
+
+    const health = (type: RealtimeFeedType): RealtimeFeedHealth => {
+      const cache = this.realtimeFeeds[type];
+      const snapshot = cache.peek();
+      const stats = cache.getStats();
+      const lastUpdated = snapshot ? updatedAt(snapshot) : undefined;
+
+      let status: RealtimeFeedHealth["status"] = "unused";
+      if (stats.lastAttemptAt) {
+        status =
+          lastUpdated !== undefined &&
+          stats.lastAttemptAt - lastUpdated <= this.realtimeStaleThreshold
+            ? "ok"
+            : "stale";
+      }
+
+      return {
+        status,
+        lastSuccessAt: toIso(snapshot?.fetchedAt),
+        lastAttemptAt: toIso(stats.lastAttemptAt),
+        headerTimestamp: toIso(
+          snapshot?.headerTimestamp && snapshot.headerTimestamp * 1000,
+        ),
+        feedAge:
+          lastUpdated !== undefined
+            ? Math.max(0, Math.round((Date.now() - lastUpdated) / 1000))
+            : undefined,
+        entityCount: snapshot?.feed.entity.length,
+        consecutiveErrors: stats.consecutiveErrors,
+        lastError: stats.lastError?.message,
+        lastErrorAt: toIso(stats.lastError?.at),
+      };
+    };
+
+    return {
+      tripUpdates: health("tripUpdates"),
+      vehiclePositions: health("vehiclePositions"),
+      alerts: health("alerts"),
+    };
+  }
+
+  private get realtimeStaleThreshold(): number {
+    return this.config.realtimeStaleThreshold ?? 300000;
+  }
+
+  // Map a feed-local ID to the ID exposed by the API
+  private scopeId(id: string): string {
+    return this.idPrefix + id;
+  }
+
+  private scopeOptionalId(id: string | null | undefined): string | undefined {
+    return id ? this.scopeId(id) : undefined;
+  }
+
+  private unscopeId(id: string): string {
+    return id.startsWith(this.idPrefix) ? id.slice(this.idPrefix.length) : id;
+  }
+
+  // Stop background work so the process can exit
+  shutdown(): void {
+    if (this.refreshTimer) {
+      clearInterval(this.refreshTimer);
+      this.refreshTimer = undefined;
+    }
+    this.pollTimers.forEach((timer) => clearInterval(timer));
+    this.pollTimers = [];
+  }
+
+  private startStaticRefresh(): void {
+    const interval = this.config.staticRefreshInterval || 0;
+    if (interval <= 0 || this.refreshTimer) return;
+
+    console.log(`Refreshing static GTFS every ${interval / 1000}s`);
+    this.refreshTimer = setInterval(() => {
+      this.refreshStaticData().catch(() => {
+        // Already logged; keep serving the previous feed
+      });
+    }, interval);
+    this.refreshTimer.unref();
+  }
+
+  // Download the static feed and, if it changed, parse it into a new data set
+  // and swap it in. On any failure the current data is left untouched.
+  async refreshStaticData(): Promise<void> {
+    if (this.refreshInProgress) {
+      return this.refreshInProgress;
+    }
+
+    this.refreshInProgress = (async () => {
+      this.lastStaticCheckAt = Date.now();
+      try {
+        console.log(`Loading GTFS feed from: ${this.staticGtfsUrl}`);
+        const download = await openStaticFeed(this.staticGtfsUrl, {
+          etag: this.data.etag,
+          lastModified: this.data.lastModified,
+        });
+        if (!download) {
+          console.log(
+            `Static GTFS not modified (version ${this.data.feedVersion}), skipping reload`,
+          );
+          this.lastStaticError = undefined;
+          return;
         }
+
+        const { source, contentHash, etag, lastModified } = download;
+        if (contentHash === this.data.contentHash) {
+          console.log(
+            `Static GTFS unchanged (version ${this.data.feedVersion}), skipping reload`,
+          );
+          this.lastStaticError = undefined;
+          return;
+        }
+
+        const data = await this.loadStaticData(source);
+        data.contentHash = contentHash;
+        data.feedVersion = data.feedVersion || contentHash.slice(0, 12);
+        data.etag = etag;
+        data.lastModified = lastModified;
+
+        this.data = data;
+        this.staticLoadedFrom = "upstream";
+        this.lastStaticError = undefined;
+        console.log(`Static GTFS version ${data.feedVersion} loaded`);
+
+        await this.writeSnapshot(data);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        this.lastStaticError = { message, at: Date.now() };
+        console.error("Error loading GTFS data:", error);
+        throw error;
+      } finally {
+        this.refreshInProgress = undefined;
       }
-    });
+    })();
+
+    return this.refreshInProgress;
+  }
+
+  getStaticDataStatus(): StaticDataStatus {
+    const toIso = (time?: number) =>
+      time ? new Date(time).toISOString() : undefined;
+
+    return {
+      feedVersion: this.data.feedVersion || undefined,
+      loadedAt: toIso(this.data.loadedAt),
+      loadedFrom: this.staticLoadedFrom,
+      lastCheckedAt: toIso(this.lastStaticCheckAt),
+      lastError: this.lastStaticError?.message,
+      lastErrorAt: toIso(this.lastStaticError?.at),
+      refreshInterval: this.config.staticRefreshInterval || 0,
+      refreshing: this.refreshInProgress !== undefined,
+    };
+  }
+
+  // Snapshots store namespaced IDs, so they are only valid for the same source
+  // loaded under the same namespace
+  private get snapshotSource(): string {
+    return `${this.idPrefix}${this.staticGtfsUrl}`;
+  }
+
+  private async readSnapshot(): Promise<StaticGtfsData | undefined> {
+    if (!this.config.snapshotPath) return undefined;
 
-    console.log(`Loaded ${this.routes.size} routes`);
+    try {
+      const data = await loadStaticSnapshot(
+        this.config.snapshotPath,
+        this.snapshotSource,
+      );
+      if (data) this.buildDerivedIndexes(data);
+      return data;
+    } catch (error) {
+      console.warn("Failed to read GTFS snapshot, ignoring it:", error);
+      return undefined;
+    }
   }
 
-  private async loadTrips(zipData: JSZip): Promise<void> {
-    const tripsFile = zipData.file("trips.txt");
-    if (!tripsFile) {
-      throw new Error("trips.txt not found in GTFS zip");
+  // A failed write only costs the next cold start, so it is logged, not thrown
+  private async writeSnapshot(data: StaticGtfsData): Promise<void> {
+    if (!this.config.snapshotPath) return;
+
+    try {
+      await saveStaticSnapshot(
+        this.config.snapshotPath,
+        this.snapshotSource,
+        data,
+      );
+      console.log(`Saved GTFS snapshot to ${this.config.snapshotPath}`);
+    } catch (error) {
+      console.warn("Failed to write GTFS snapshot:", error);
     }
+  }
 
-    const tripsData = await tripsFile.async("string");
-    console.log("Processing trips.txt...");
+  private async loadStaticData(
+    source: GtfsFileSource,
+  ): Promise<StaticGtfsData> {
+    const data = createEmptyStaticData();
+
+    // Load all GTFS files
+    await this.loadFeedInfo(source, data);
+    await this.loadAgencies(source, data);
+    await this.loadRoutes(source, data);
+    await this.loadTrips(source, data);
+    await this.loadStops(source, data);
+    await this.loadStopTimes(source, data);
+    await this.loadCalendars(source, data);
+    await this.loadCalendarDates(source, data);
+    await this.loadShapes(source, data);
+    await this.loadFrequencies(source, data);
+    this.buildRoutePatterns(data);
+    this.buildDerivedIndexes(data);
+
+    data.loadedAt = Date.now();
+    return data;
+  }
 
-    const lines = tripsData.split("\n");
-    const header = lines[0].trim();
-    console.log("Trips header:", header);
+  // Parse a GTFS file from the feed, resolving columns by header name and
+  // logging any malformed rows. Returns false if an optional file is absent.
+  private async parseGtfsFile(
+    source: GtfsFileSource,
+    fileName: string,
+    requiredColumns: string[],
+    onRecord: (record: CsvRecord) => void,
+    optional: boolean = false,
+  ): Promise<boolean> {
+    const text = await source.readFile(fileName);
+    if (text === undefined) {
+      if (optional) {
+        console.warn(`${fileName} not found in GTFS feed, skipping...`);
+        return false;
+      }
+      throw new Error(`${fileName} not found in GTFS feed`);
+    }
+
+    console.log(`Processing ${fileName}...`);
 
-    lines.slice(1).forEach((line, index) => {
-      if (line.trim()) {
-        const fields = line.split(",");
-        if (fields.length >= 4) {
-          // Adjust based on your trips.txt format
-          const routeId = fields[0].trim();
-          const tripId = fields[2].trim();
-          const tripHeadsign = fields[3].trim();
+    let result: CsvParseResult;
+    try {
+      result = parseCsv(text, onRecord, { requiredColumns });
+    } catch (error) {
+      throw new Error(
+        `Invalid ${fileName}: ${error instanceof Error ? error.message : error}`,
+      );
+    }
+
+    if (result.errorCount > 0) {
+      console.warn(
+        `Skipped ${result.errorCount} malformed rows in ${fileName}:`,
+      );
+      result.errors.slice(0, 10).forEach((error) => {
+        console.warn(`  line ${error.line}: ${error.message}`);
+      });
+    }
+
+    return true;
+  }
+
+  private async loadFeedInfo(
+    source: GtfsFileSource,
+    data: StaticGtfsData,
+  ): Promise<void> {
+    await this.parseGtfsFile(
+      source,
+      "feed_info.txt",
+      [],
+      (record) => {
+        data.feedVersion = data.feedVersion || record.feed_version || "";
+      },
+      true,
+    );
+  }
+
+  private async loadAgencies(
+    source: GtfsFileSource,
+    data: StaticGtfsData,
+  ): Promise<void> {
+    await this.parseGtfsFile(
+      source,
+      "agency.txt",
+      ["agency_name", "agency_timezone"],
+      (record) => {
+        const agencyId = record.agency_id || "";
+        data.agencies.set(agencyId, {
+          agencyId,
+          agencyName: record.agency_name,
+          agencyUrl: record.agency_url || undefined,
+          agencyTimezone: record.agency_timezone,
+        });
+      },
+      true,
+    );
+
+    // GTFS requires every agency in a feed to share one timezone
+    const timeZones = new Set(
+      Array.from(data.agencies.values(), (agency) => agency.agencyTimezone),
+    );
+    if (timeZones.size > 1) {
+      console.warn(
+        `agency.txt lists multiple timezones (${Array.from(timeZones).join(", ")}), using the first`,
+      );
+    }
+
+    const [timeZone] = timeZones;
+    if (timeZone && isValidTimeZone(timeZone)) {
+      data.timeZone = timeZone;
+    } else {
+      data.timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+      console.warn(
+        `${timeZone ? `Unknown agency timezone "${timeZone}"` : "No agency timezone in feed"}, falling back to server timezone ${data.timeZone}`,
+      );
+    }
+
+    console.log(
+      `Loaded ${data.agencies.size} agencies (timezone ${data.timeZone})`,
+    );
+  }
 
-          this.trips.set(tripId, {
+  private async loadRoutes(
+    source: GtfsFileSource,
+    data: StaticGtfsData,
+  ): Promise<void> {
+    await this.parseGtfsFile(source, "routes.txt", ["route_id"], (record) => {
+      if (!record.route_id) return;
+      const routeId = this.scopeId(record.route_id);
+
+      data.routes.set(routeId, {
+        routeId,
+        agencyId: this.agencyId,
+        shortName: record.route_short_name || "",
+        longName: record.route_long_name || "",
+        routeColor: record.route_color || "000000",
+        routeTextColor: record.route_text_color || "FFFFFF",
+        routeType: parseOptionalInt(record.route_type),
+      });
+    });
+
+    console.log(`Loaded ${data.routes.size} routes`);
+  }
+
+  private async loadTrips(
+    source: GtfsFileSource,
+    data: StaticGtfsData,
+  ): Promise<void> {
+    await this.parseGtfsFile(
+      source,
+      "trips.txt",
+      ["route_id", "service_id", "trip_id"],
+      (record) => {
+        if (!record.trip_id) return;
+        const tripId = this.scopeId(record.trip_id);
+
+        data.trips.set(tripId, {
+          tripId,
+          routeId: this.scopeId(record.route_id),
+          serviceId: this.scopeId(record.service_id),
+          tripHeadsign: record.trip_headsign || "",
+          directionId: parseOptionalInt(record.direction_id),
+          shapeId: this.scopeOptionalId(record.shape_id),
+        });
+      },
+    );
+
+    console.log(`Loaded ${data.trips.size} trips`);
+  }
+
+  private async loadStops(
+    source: GtfsFileSource,
+    data: StaticGtfsData,
+  ): Promise<void> {
+    await this.parseGtfsFile(
+      source,
+      "stops.txt",
+      ["stop_id", "stop_lat", "stop_lon"],
+      (record) => {
+        const stopId = this.scopeOptionalId(record.stop_id);
+        const stopLat = parseFloat(record.stop_lat);
+        const stopLon = parseFloat(record.stop_lon);
+
+        if (stopId && !isNaN(stopLat) && !isNaN(stopLon)) {
+          data.stops.set(stopId, {
+            stopId,
+            agencyId: this.agencyId,
+            stopName: record.stop_name || record.stop_id,
+            stopDesc: record.stop_desc || undefined,
+            stopLat,
+            stopLon,
+            stopCode: record.stop_code || undefined,
+            locationType: parseOptionalInt(record.location_type) ?? 0,
+            parentStation: this.scopeOptionalId(record.parent_station),
+            wheelchairBoarding: parseOptionalInt(record.wheelchair_boarding),
+            platformCode: record.platform_code || undefined,
+          });
+        }
+      },
+    );
+
+    // Index platforms by their parent station so a station can stand in for
+    // all of its stops. Platforms with no accessibility info inherit the
+    // station's, as the GTFS spec describes.
+    for (const stop of data.stops.values()) {
+      if (!stop.parentStation || stop.locationType !== 0) continue;
+
+      const station = data.stops.get(stop.parentStation);
+      if (!stop.wheelchairBoarding && station?.wheelchairBoarding) {
+        stop.wheelchairBoarding = station.wheelchairBoarding;
+      }
+
+      if (!data.stationStops.has(stop.parentStation)) {
+        data.stationStops.set(stop.parentStation, []);
+      }
+      data.stationStops.get(stop.parentStation)!.push(stop.stopId);
+    }
+
+    console.log(
+      `Loaded ${data.stops.size} stops (${data.stationStops.size} stations)`,
+    );
+  }
+
+  private async loadStopTimes(
+    source: GtfsFileSource,
+    data: StaticGtfsData,
+  ): Promise<void> {
+    // Trips with stops that aren't timepoints, whose times are left blank
+    const untimedTrips = new Set<string>();
+
+    const found = await this.parseGtfsFile(
+      source,
+      "stop_times.txt",
+      ["trip_id", "arrival_time", "departure_time", "stop_id", "stop_sequence"],
+      (record) => {
+        const tripId = this.scopeOptionalId(record.trip_id);
+        const stopId = this.scopeOptionalId(record.stop_id);
+        // A stop with only one of the two times arrives and departs at once
+        const arrivalTime = record.arrival_time || record.departure_time;
+        const departureTime = record.departure_time || record.arrival_time;
+        const stopSequence = parseInt(record.stop_sequence, 10);
+
+        if (tripId && stopId && !isNaN(stopSequence)) {
+          if (!arrivalTime) untimedTrips.add(tripId);
+          if (!data.stopTimes.has(tripId)) {
+            data.stopTimes.set(tripId, []);
+          }
+          data.stopTimes.get(tripId)?.push({
             tripId,
-            routeId,
-            tripHeadsign,
+            arrivalTime: arrivalTime || "",
+            departureTime: departureTime || "",
+            stopId,
+            stopSequence,
+            stopHeadsign: record.stop_headsign || undefined,
+            pickupType: parseOptionalInt(record.pickup_type),
+            dropOffType: parseOptionalInt(record.drop_off_type),
           });
         }
+      },
+      true,
+    );
+    if (!found) return;
+
+    // Sort stop times by sequence
+    for (const [tripId, stopTimes] of data.stopTimes) {
+      stopTimes.sort((a, b) => a.stopSequence - b.stopSequence);
+    }
+
+    let dropped = 0;
+    for (const tripId of untimedTrips) {
+      const stopTimes = data.stopTimes.get(tripId)!;
+      const timed = this.interpolateStopTimes(stopTimes);
+      dropped += stopTimes.length - timed.length;
+      if (timed.length > 0) {
+        data.stopTimes.set(tripId, timed);
+      } else {
+        data.stopTimes.delete(tripId);
       }
-    });
+    }
+    if (dropped > 0) {
+      console.warn(
+        `Dropped ${dropped} stop times before a trip's first or after its last timed stop`,
+      );
+    }
 
-    console.log(`Loaded ${this.trips.size} trips`);
+    console.log(`Loaded stop times for ${data.stopTimes.size} trips`);
   }
 
-  private async loadStops(zipData: JSZip): Promise<void> {
-    const stopsFile = zipData.file("stops.txt");
-    if (!stopsFile) {
-      throw new Error("stops.txt not found in GTFS zip");
+  // Fill in the blank times of stops that aren't timepoints, spread evenly
+  // between the timed stops either side, as the spec asks consumers to.
+  // Stops outside the first and last timed stop can't be placed and are
+  // dropped; the spec requires both ends of a trip to be timed anyway.
+  private interpolateStopTimes(stopTimes: GTFSStopTime[]): GTFSStopTime[] {
+    const timedIndexes = stopTimes
+      .map((stopTime, index) => (stopTime.arrivalTime ? index : -1))
+      .filter((index) => index >= 0);
+
+    for (let i = 1; i < timedIndexes.length; i++) {
+      const from = timedIndexes[i - 1];
+      const to = timedIndexes[i];
+      const start = parseGtfsTimeOfDay(stopTimes[from].departureTime);
+      const end = parseGtfsTimeOfDay(stopTimes[to].arrivalTime);
+
+      for (let index = from + 1; index < to; index++) {
+        const time = formatGtfsTime(
+          Math.round(start + ((end - start) * (index - from)) / (to - from)),
+        );
+        stopTimes[index] = {
+          ...stopTimes[index],
+          arrivalTime: time,
+          departureTime: time,
+          interpolated: true,
+        };
+      }
     }
 
-    const stopsData = await stopsFile.async("string");
-    console.log("Processing stops.txt...");
+    if (timedIndexes.length === 0) return [];
+    return stopTimes.slice(
+      timedIndexes[0],
+      timedIndexes[timedIndexes.length - 1] + 1,
+    );
+  }
 
-    const lines = stopsData.split("\n");
-    const header = lines[0].trim().split(",");
-    console.log("Stops header:", header);
+  private async loadCalendars(
+    source: GtfsFileSource,
+    data: StaticGtfsData,
+  ): Promise<void> {
+    const dayColumns = [
+      "sunday",
+      "monday",
+      "tuesday",
+      "wednesday",
+      "thursday",
+      "friday",
+      "saturday",
+    ];
+
+    const found = await this.parseGtfsFile(
+      source,
+      "calendar.txt",
+      ["service_id", ...dayColumns, "start_date", "end_date"],
+      (record) => {
+        const serviceId = this.scopeOptionalId(record.service_id);
+        if (!serviceId) return;
+
+        data.calendars.set(serviceId, {
+          serviceId,
+          days: dayColumns.map((day) => record[day] === "1"),
+          startDate: record.start_date,
+          endDate: record.end_date,
+        });
+      },
+      true,
+    );
+    if (!found) return;
 
-    // Find column indices
-    const stopIdIndex = header.indexOf("stop_id");
-    const stopNameIndex = header.indexOf("stop_name");
-    const stopDescIndex = header.indexOf("stop_desc");
-    const stopLatIndex = header.indexOf("stop_lat");
-    const stopLonIndex = header.indexOf("stop_lon");
-    const stopCodeIndex = header.indexOf("stop_code");
+    console.log(`Loaded ${data.calendars.size} service calendars`);
+  }
 
-    lines.slice(1).forEach((line) => {
-      if (line.trim()) {
-        const fields = line.split(",");
-        if (
-          fields.length >=
-          Math.max(stopIdIndex, stopNameIndex, stopLatIndex, stopLonIndex) + 1
-        ) {
-          const stopId = fields[stopIdIndex]?.trim();
-          const stopName = fields[stopNameIndex]?.trim().replace(/"/g, "");
-          const stopLat = parseFloat(fields[stopLatIndex]?.trim());
-          const stopLon = parseFloat(fields[stopLonIndex]?.trim());
-
-          if (stopId && !isNaN(stopLat) && !isNaN(stopLon)) {
-            this.stops.set(stopId, {
-              stopId,
-              stopName: stopName || stopId,
-              stopDesc:
-                stopDescIndex >= 0
-                  ? fields[stopDescIndex]?.trim().replace(/"/g, "")
-                  : undefined,
-              stopLat,
-              stopLon,
-              stopCode:
-                stopCodeIndex >= 0 ? fields[stopCodeIndex]?.trim() : undefined,
-            });
+  private async loadCalendarDates(
+    source: GtfsFileSource,
+    data: StaticGtfsData,
+  ): Promise<void> {
+    let exceptionCount = 0;
+
+    const found = await this.parseGtfsFile(
+      source,
+      "calendar_dates.txt",
+      ["service_id", "date", "exception_type"],
+      (record) => {
+        const serviceId = this.scopeOptionalId(record.service_id);
+        const date = record.date;
+        const exceptionType = parseInt(record.exception_type, 10);
+
+        if (serviceId && date && (exceptionType === 1 || exceptionType === 2)) {
+          if (!data.calendarDates.has(date)) {
+            data.calendarDates.set(date, []);
           }
+          data.calendarDates.get(date)?.push({
+            serviceId,
+            date,
+            exceptionType,
+          });
+          exceptionCount++;
         }
-      }
-    });
+      },
+      true,
+    );
+    if (!found) return;
 
-    console.log(`Loaded ${this.stops.size} stops`);
-  }
-
-  private async loadStopTimes(zipData: JSZip): Promise<void> {
-    const stopTimesFile = zipData.file("stop_times.txt");
-    if (!stopTimesFile) {
-      console.warn("stop_times.txt not found in GTFS zip, skipping...");
-      return;
-    }
-
-    const stopTimesData = await stopTimesFile.async("string");
-    console.log("Processing stop_times.txt...");
-
-    const lines = stopTimesData.split("\n");
-    const header = lines[0].trim().split(",");
-
-    // Find column indices
-    const tripIdIndex = header.indexOf("trip_id");
-    const arrivalTimeIndex = header.indexOf("arrival_time");
-    const departureTimeIndex = header.indexOf("departure_time");
-    const stopIdIndex = header.indexOf("stop_id");
-    const stopSequenceIndex = header.indexOf("stop_sequence");
-
-    lines.slice(1).forEach((line) => {
-      if (line.trim()) {
-        const fields = line.split(",");
-        if (
-          fields.length >=
-          Math.max(
-            tripIdIndex,
-            arrivalTimeIndex,
-            departureTimeIndex,
-            stopIdIndex,
-            stopSequenceIndex,
-          ) +
-            1
-        ) {
-          const tripId = fields[tripIdIndex]?.trim();
-          const stopId = fields[stopIdIndex]?.trim();
-          const arrivalTime = fields[arrivalTimeIndex]?.trim();
-          const departureTime = fields[departureTimeIndex]?.trim();
-          const stopSequence = parseInt(fields[stopSequenceIndex]?.trim());
-
-          if (
-            tripId &&
-            stopId &&
-            arrivalTime &&
-            departureTime &&
-            !isNaN(stopSequence)
-          ) {
-            if (!this.stopTimes.has(tripId)) {
-              this.stopTimes.set(tripId, []);
-            }
-            this.stopTimes.get(tripId)?.push({
-              tripId,
-              arrivalTime,
-              departureTime,
-              stopId,
-              stopSequence,
-            });
+    console.log(`Loaded ${exceptionCount} service calendar exceptions`);
+  }
+
+  private async loadShapes(
+    source: GtfsFileSource,
+    data: StaticGtfsData,
+  ): Promise<void> {
+    const points = new Map<
+      string,
+      Array<{ sequence: number; point: LonLat }>
+    >();
+
+    const found = await this.parseGtfsFile(
+      source,
+      "shapes.txt",
+      ["shape_id", "shape_pt_lat", "shape_pt_lon", "shape_pt_sequence"],
+      (record) => {
+        const shapeId = this.scopeOptionalId(record.shape_id);
+        const lat = parseFloat(record.shape_pt_lat);
+        const lon = parseFloat(record.shape_pt_lon);
+        const sequence = parseInt(record.shape_pt_sequence, 10);
+
+        if (shapeId && !isNaN(lat) && !isNaN(lon) && !isNaN(sequence)) {
+          if (!points.has(shapeId)) {
+            points.set(shapeId, []);
+          }
+          points.get(shapeId)?.push({ sequence, point: [lon, lat] });
+        }
+      },
+      true,
+    );
+    if (!found) return;
+
+    for (const [shapeId, shapePoints] of points) {
+      shapePoints.sort((a, b) => a.sequence - b.sequence);
+      data.shapes.set(
+        shapeId,
+        shapePoints.map((shapePoint) => shapePoint.point),
+      );
+    }
+
+    console.log(`Loaded ${data.shapes.size} shapes`);
+  }
+
+  private async loadFrequencies(
+    source: GtfsFileSource,
+    data: StaticGtfsData,
+  ): Promise<void> {
+    let windowCount = 0;
+
+    const found = await this.parseGtfsFile(
+      source,
+      "frequencies.txt",
+      ["trip_id", "start_time", "end_time", "headway_secs"],
+      (record) => {
+        const tripId = this.scopeOptionalId(record.trip_id);
+        const headwaySecs = parseInt(record.headway_secs, 10);
+
+        if (tripId && record.start_time && record.end_time && headwaySecs > 0) {
+          if (!data.frequencies.has(tripId)) {
+            data.frequencies.set(tripId, []);
           }
+          data.frequencies.get(tripId)?.push({
+            tripId,
+            startTime: record.start_time,
+            endTime: record.end_time,
+            headwaySecs,
+            exactTimes: record.exact_times === "1",
+          });
+          windowCount++;
         }
+      },
+      true,
+    );
+    if (!found) return;
+
+    for (const windows of data.frequencies.values()) {
+      windows.sort(
+        (a, b) =>
+          parseGtfsTimeOfDay(a.startTime) - parseGtfsTimeOfDay(b.startTime),
+      );
+    }
+
+    console.log(
+      `Loaded ${windowCount} headway windows for ${data.frequencies.size} trips`,
+    );
+  }
+
+  // Departure times (seconds into the service day) of a trip at one of its
+  // stops. A frequency-based trip's stop_times are a template whose offsets
+  // from the first stop are replayed at every headway in each window.
+  private expandStopDepartures(
+    data: StaticGtfsData,
+    tripId: string,
+    stopTimes: GTFSStopTime[],
+    stopTime: GTFSStopTime,
+  ): Array<{ timeOfDay: number; windowIndex?: number }> {
+    const departureTime = parseGtfsTimeOfDay(stopTime.departureTime);
+    const windows = data.frequencies.get(tripId);
+    if (!windows) {
+      return [{ timeOfDay: departureTime }];
+    }
+
+    const offset =
+      departureTime - parseGtfsTimeOfDay(stopTimes[0].departureTime);
+    const departures: Array<{ timeOfDay: number; windowIndex?: number }> = [];
+
+    windows.forEach((window, windowIndex) => {
+      for (const tripStart of this.getFrequencyTripStarts(window)) {
+        departures.push({ timeOfDay: tripStart + offset, windowIndex });
       }
     });
 
-    // Sort stop times by sequence
-    for (const [tripId, stopTimes] of this.stopTimes) {
-      stopTimes.sort((a, b) => a.stopSequence - b.stopSequence);
-    }
+    return departures;
+  }
+
+  // Lookup indexes derived from the parsed files. Snapshots leave them out,
+  // so they are built both after parsing and after reading a snapshot.
+  private buildDerivedIndexes(data: StaticGtfsData): void {
+    this.buildStopSchedule(data);
 
-    console.log(`Loaded stop times for ${this.stopTimes.size} trips`);
+    data.stopGrid = createStopGrid();
+    for (const stop of data.stops.values()) {
+      data.stopGrid.insert(stop);
+    }
   }
 
-  private async buildRouteStopsMapping(): Promise<void> {
-    // Build mapping of routes to stops
-    for (const [tripId, trip] of this.trips) {
-      const stopTimes = this.stopTimes.get(tripId);
-      if (stopTimes) {
-        if (!this.routeStops.has(trip.routeId)) {
-          this.routeStops.set(trip.routeId, []);
+  // Index every departure by stop, sorted by time of day, so a departures
+  // lookup binary-searches one stop's list instead of scanning every trip
+  private buildStopSchedule(data: StaticGtfsData): void {
+    data.stopSchedule = new Map();
+
+    for (const [tripId, stopTimes] of data.stopTimes) {
+      if (!data.trips.has(tripId)) continue;
+
+      for (const stopTime of stopTimes) {
+        let departures = data.stopSchedule.get(stopTime.stopId);
+        if (!departures) {
+          departures = [];
+          data.stopSchedule.set(stopTime.stopId, departures);
         }
-        const routeStopIds = this.routeStops.get(trip.routeId)!;
 
-        stopTimes.forEach((stopTime) => {
-          if (!routeStopIds.includes(stopTime.stopId)) {
-            routeStopIds.push(stopTime.stopId);
-          }
-        });
+        for (const departure of this.expandStopDepartures(
+          data,
+          tripId,
+          stopTimes,
+          stopTime,
+        )) {
+          if (isNaN(departure.timeOfDay)) continue;
+          departures.push({
+            ...departure,
+            tripId,
+            stopId: stopTime.stopId,
+            stopSequence: stopTime.stopSequence,
+          });
+        }
       }
     }
 
-    console.log(`Built route-stops mapping for ${this.routeStops.size} routes`);
+    for (const departures of data.stopSchedule.values()) {
+      departures.sort((a, b) => a.timeOfDay - b.timeOfDay);
+    }
+
+    console.log(`Indexed departures for ${data.stopSchedule.size} stops`);
   }
 
-  private getOrCreateRoute(routeId: string): GTFSRoute {
-    let route = this.routes.get(routeId);
-    if (!route) {
-      // Create a basic route entry if none exists
-      const [shortName] = routeId.split("-");
-      route = {
-        routeId,
-        shortName: shortName || routeId,
-        longName: routeId,
-        routeColor: "000000", // Default to black
-        routeTextColor: "FFFFFF", // Default to white
-      };
-      this.routes.set(routeId, route);
-      console.log(`Created dynamic route entry for ID: ${routeId}`);
+  // Index of the first departure later than timeOfDay
+  private findFirstDepartureAfter(
+    departures: StopDeparture[],
+    timeOfDay: number,
+  ): number {
+    let low = 0;
+    let high = departures.length;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (departures[mid].timeOfDay <= timeOfDay) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
     }
-    return route;
+    return low;
+  }
+
+  // Start times of the trips in a headway window; end_time is exclusive
+  private getFrequencyTripStarts(window: GTFSFrequency): number[] {
+    const start = parseGtfsTimeOfDay(window.startTime);
+    const end = parseGtfsTimeOfDay(window.endTime);
+    const starts: number[] = [];
+
+    for (let time = start; time < end; time += window.headwaySecs) {
+      starts.push(time);
+    }
+    return starts;
+  }
+
+  // Service IDs running on a service date, or null if the feed has no
+  // calendar data at all (in which case every trip is assumed to run)
+  private getActiveServiceIds(serviceDate: string): Set<string> | null {
+    if (this.data.calendars.size === 0 && this.data.calendarDates.size === 0) {
+      return null;
+    }
+
+    const { activeServices } = this.data;
+    let active = activeServices.get(serviceDate);
+    if (active) {
+      // Maps keep insertion order, so re-inserting marks it most recent
+      activeServices.delete(serviceDate);
+      activeServices.set(serviceDate, active);
+      return active;
+    }
+
+    active = new Set();
+    const weekday = getServiceDateWeekday(serviceDate);
+
+    for (const calendar of this.data.calendars.values()) {
+      if (
+        calendar.days[weekday] &&
+        calendar.startDate <= serviceDate &&
+        serviceDate <= calendar.endDate
+      ) {
+        active.add(calendar.serviceId);
+      }
+    }
+
+    // calendar_dates.txt exceptions override the weekly pattern
+    for (const exception of this.data.calendarDates.get(serviceDate) || []) {
+      if (exception.exceptionType === 1) {
+        active.add(exception.serviceId);
+      } else {
+        active.delete(exception.serviceId);
+      }
+    }
+
+    activeServices.set(serviceDate, active);
+    if (activeServices.size > ACTIVE_SERVICES_CACHE_SIZE) {
+      activeServices.delete(activeServices.keys().next().value!);
+    }
+    return active;
+  }
+
+  // Group each route's trips by direction and exact stop sequence
+  private buildRoutePatterns(data: StaticGtfsData): void {
+    const patterns = new Map<
+      string,
+      Map<string, { pattern: RoutePattern; headsigns: Map<string, number> }>
+    >();
+
+    for (const [tripId, trip] of data.trips) {
+      const stopTimes = data.stopTimes.get(tripId);
+      if (!stopTimes || stopTimes.length === 0) continue;
+
+      const stopIds = stopTimes.map((stopTime) => stopTime.stopId);
+      const key = `${trip.directionId ?? ""}|${stopIds.join(",")}`;
+
+      if (!patterns.has(trip.routeId)) {
+        patterns.set(trip.routeId, new Map());
+      }
+      const routePatterns = patterns.get(trip.routeId)!;
+
+      let entry = routePatterns.get(key);
+      if (!entry) {
+        entry = {
+          pattern: {
+            directionId: trip.directionId,
+            headsign: "",
+            stopIds,
+            tripCount: 0,
+          },
+          headsigns: new Map(),
+        };
+        routePatterns.set(key, entry);
+      }
+
+      entry.pattern.tripCount++;
+      if (trip.tripHeadsign) {
+        entry.headsigns.set(
+          trip.tripHeadsign,
+          (entry.headsigns.get(trip.tripHeadsign) || 0) + 1,
+        );
+      }
+    }
+
+    for (const [routeId, routePatterns] of patterns) {
+      const list = Array.from(
+        routePatterns.values(),
+        ({ pattern, headsigns }) => {
+          // Most common trip headsign, falling back to the last stop's name
+          let bestCount = 0;
+          for (const [headsign, count] of headsigns) {
+            if (count > bestCount) {
+              pattern.headsign = headsign;
+              bestCount = count;
+            }
+          }
+          if (!pattern.headsign) {
+            const lastStopId = pattern.stopIds[pattern.stopIds.length - 1];
+            pattern.headsign = data.stops.get(lastStopId)?.stopName || "";
+          }
+          return pattern;
+        },
+      );
+
+      list.sort((a, b) => b.tripCount - a.tripCount);
+      data.routePatterns.set(routeId, list);
+    }
+
+    console.log(`Built stop patterns for ${data.routePatterns.size} routes`);
+  }
+
+  // Merge stop sequences into one ordered list: the first (busiest) pattern
+  // sets the order, and stops only found in other patterns are inserted after
+  // the nearest preceding stop they share with it
+  private mergeStopSequences(sequences: string[][]): string[] {
+    const merged: string[] = [];
+
+    for (const sequence of sequences) {
+      let insertAt = 0;
+      for (const stopId of sequence) {
+        const index = merged.indexOf(stopId);
+        if (index === -1) {
+          merged.splice(insertAt, 0, stopId);
+          insertAt++;
+        } else {
+          insertAt = index + 1;
+        }
+      }
+    }
+
+    return merged;
+  }
+
+  // The static route, or for a route only the realtime feed mentions a
+  // placeholder built from its ID. Placeholders aren't stored: the static
+  // data stays as loaded, so they never show up in the route listings.
+  private resolveRoute(routeId: string): GTFSRoute {
+    const route = this.data.routes.get(routeId);
+    if (route) return route;
+
+    const [shortName] = this.unscopeId(routeId).split("-");
+    return {
+      routeId,
+      agencyId: this.agencyId,
+      shortName: shortName || routeId,
+      longName: routeId,
+      routeColor: "000000", // Default to black
+      routeTextColor: "FFFFFF", // Default to white
+    };
   }
 
   async getNextArrivals(
     stopId: string,
     routeFilter?: string,
     maxArrivals: number = 5,
+    options: ArrivalOptions = {},
   ): Promise<BusArrival[]> {
     console.log(
       `Fetching arrivals for stop ID: ${stopId}${routeFilter ? `, route: ${routeFilter}` : ""}`,
     );
-    console.log(`Requesting GTFS-realtime feed from: ${this.tripUpdatesUrl}`);
+    const { feed } = await this.realtimeFeeds.tripUpdates.get();
 
-    const response = await fetch(this.tripUpdatesUrl);
-    if (!response.ok) {
-      throw new Error(
-        `Failed to fetch GTFS feed: ${response.status} ${response.statusText}`,
+    const includeCancelled = options.includeCancelled ?? true;
+    const arrivals = new Map<string, ArrivalCandidate[]>();
+    const currentTime = Math.floor(Date.now() / 1000);
+    const stopIds = this.resolveStopIds(stopId);
+
+    const addArrival = (routeId: string, arrival: ArrivalCandidate) => {
+      // Only include future arrivals (within next 2 hours)
+      if (arrival.time <= currentTime || arrival.time >= currentTime + 7200) {
+        return;
+      }
+      console.log(
+        `  Match found - Route ID: ${routeId}, Arrival: ${new Date(arrival.time * 1000).toISOString()}`,
       );
-    }
+      if (!arrivals.has(routeId)) {
+        arrivals.set(routeId, []);
+      }
+      arrivals.get(routeId)?.push(arrival);
+    };
+
+    // Process GTFS-realtime feed
+    feed.entity.forEach((entity) => {
+      const realtimeTrip = entity.tripUpdate
+        ? this.describeTrip(entity.tripUpdate)
+        : undefined;
+      if (!realtimeTrip) return;
+      const { tripId, trip, update: tripUpdate } = realtimeTrip;
+      const routeId = trip.routeId;
+
+      // Apply route filter if specified
+      if (routeFilter && routeId !== routeFilter) {
+        return;
+      }
+
+      const cancelled = this.isTripCancelled(tripUpdate);
+      if (cancelled && !includeCancelled) return;
+
+      console.log(
+        `Processing trip update for trip ID: ${tripId}, route: ${routeId}`,
+      );
+
+      const stopPredictions = this.predictTripStopTimes(realtimeTrip);
+      if (stopPredictions) {
+        stopPredictions.forEach((prediction) => {
+          if (!stopIds.has(prediction.stopId)) return;
+          if (prediction.skipped && !includeCancelled) return;
+
+          // Without a prediction the schedule stands in, but only to show
+          // when a cancelled trip or skipped stop would have been served
+          const isPredicted =
+            !cancelled && !prediction.skipped && prediction.time !== undefined;
+          if (!isPredicted && !cancelled && !prediction.skipped) return;
+
+          const time = isPredicted ? prediction.time : prediction.scheduledTime;
+          if (time === undefined) return;
+
+          addArrival(routeId, {
+            time,
+            tripId,
+            headsign: trip.tripHeadsign,
+            isExtraService: realtimeTrip.isExtraService,
+            stopId: prediction.stopId,
+            source: cancelled
+              ? "cancelled"
+              : isPredicted
+                ? "realtime"
+                : "scheduled",
+            skipped: prediction.skipped,
+            scheduledTime: prediction.scheduledTime,
+            delay: isPredicted ? prediction.delay : undefined,
+            uncertainty: isPredicted ? prediction.uncertainty : undefined,
+          });
+        });
+        return;
+      }
 
-    const buffer = await response.arrayBuffer();
-    console.log(`Received feed data of size: ${buffer.byteLength} bytes`);
+      // Added trips, and any others missing from the static data, can only
+      // be placed by the times their updates give
+      if (cancelled) return;
+      (tripUpdate.stopTimeUpdate || []).forEach((update) => {
+        const updateStopId = this.scopeOptionalId(update.stopId);
+        if (!updateStopId || !stopIds.has(updateStopId)) return;
+        if (this.isStopSkipped(update)) return;
+
+        const prediction = this.predictStopTime(update);
+        if (prediction) {
+          addArrival(routeId, {
+            time: prediction.time,
+            tripId,
+            headsign: trip.tripHeadsign,
+            isExtraService: realtimeTrip.isExtraService,
+            stopId: updateStopId,
+            source: "realtime",
+            delay: prediction.delay,
+            uncertainty: prediction.uncertainty,
+          });
+        }
+      });
+    });
 
-    const feed = GtfsRealtimeBindings.transit_realtime.FeedMessage.decode(
-      new Uint8Array(buffer),
+    const results = this.formatArrivals(
+      stopId,
+      arrivals,
+      maxArrivals,
+      currentTime,
     );
+    return options.alerts
+      ? this.addArrivalAlerts(results, options.alerts)
+      : results;
+  }
 
-    console.log(`Decoded feed with ${feed.entity.length} entities`);
+  /**
+   * Arrivals built from the static schedule, with realtime predictions laid
+   * over the trips that have them. Unlike getNextArrivals, scheduled trips
+   * missing from the realtime feed are still listed, and a realtime feed
+   * outage degrades to the plain schedule instead of failing.
+   */
+  async getBlendedArrivals(
+    stopId: string,
+    routeFilter?: string,
+    maxArrivals: number = 5,
+    options: ArrivalOptions = {},
+  ): Promise<BusArrival[]> {
+    console.log(
+      `Fetching blended arrivals for stop ID: ${stopId}${routeFilter ? `, route: ${routeFilter}` : ""}`,
+    );
 
-    // Enhanced to store trip information with delays and uncertainties
-    const arrivals = new Map<
-      string,
-      Array<{
-        time: number;
-        tripId: string;
-        delay?: number;
-        uncertainty?: number;
-        scheduleRelationship?: string;
-      }>
-    >();
+    const realtimeTrips = new Map<string, RealtimeTrip>();
+    try {
+      const { feed } = await this.realtimeFeeds.tripUpdates.get();
+      feed.entity.forEach((entity) => {
+        const realtimeTrip = entity.tripUpdate
+          ? this.describeTrip(entity.tripUpdate)
+          : undefined;
+        if (realtimeTrip) {
+          realtimeTrips.set(realtimeTrip.tripId, realtimeTrip);
+        }
+      });
+    } catch (error) {
+      console.warn(
+        "Trip updates unavailable, using the schedule only:",
+        error instanceof Error ? error.message : error,
+      );
+    }
 
+    const includeCancelled = options.includeCancelled ?? true;
     const currentTime = Math.floor(Date.now() / 1000);
+    const stopIds = this.resolveStopIds(stopId);
+
+    // Late-running trips can still be on their way after their scheduled
+    // time, so start a little in the past, and allow for some of those
+    // having already gone
+    const scheduled = this.collectScheduledDepartures(
+      stopId,
+      routeFilter,
+      maxArrivals * 2,
+      currentTime - BLENDED_LOOKBACK_SECS,
+    );
 
-    // Process GTFS-realtime feed
-    let matchingUpdates = 0;
-    feed.entity.forEach((entity) => {
-      if (entity.tripUpdate && entity.tripUpdate.stopTimeUpdate) {
-        const tripId = entity.tripUpdate.trip?.tripId;
-        const routeId = entity.tripUpdate?.trip?.routeId;
+    const arrivals = new Map<string, ArrivalCandidate[]>();
+    const matchedTrips = new Set<string>();
+    const addArrival = (routeId: string, arrival: ArrivalCandidate) => {
+      if (arrival.time <= currentTime) return;
+      if (!arrivals.has(routeId)) {
+        arrivals.set(routeId, []);
+      }
+      arrivals.get(routeId)?.push(arrival);
+    };
 
-        // Apply route filter if specified
-        if (routeFilter && routeId !== routeFilter) {
-          return;
+    for (const [routeId, departures] of scheduled) {
+      for (const departure of departures) {
+        // Headway-based service is listed once per window at an estimated
+        // time, which the lookback can leave in the past; move it up to the
+        // next departure from now
+        if (departure.headwaySecs && departure.time < currentTime) {
+          departure.time +=
+            Math.ceil((currentTime - departure.time) / departure.headwaySecs) *
+            departure.headwaySecs;
         }
 
-        console.log(
-          `Processing trip update for trip ID: ${tripId}, route: ${routeId}`,
-        );
+        const realtimeTrip = realtimeTrips.get(departure.tripId);
+        const startDate = realtimeTrip?.startDate;
+
+        // A trip update describes one trip instance; without a start date it
+        // is taken to be the one running now
+        const isSameInstance =
+          realtimeTrip &&
+          (startDate ? startDate === departure.serviceDate : true) &&
+          !matchedTrips.has(departure.tripId);
+
+        if (!realtimeTrip || !isSameInstance) {
+          addArrival(routeId, {
+            time: departure.time,
+            tripId: departure.tripId,
+            stopId: departure.stopId,
+            source: "scheduled",
+            scheduledTime: departure.time,
+          });
+          continue;
+        }
 
-        entity.tripUpdate.stopTimeUpdate.forEach((update) => {
-          if (
-            update.stopId === stopId &&
-            update.arrival &&
-            update.arrival.time &&
-            tripId &&
-            routeId
-          ) {
-            const arrivalTime = Number(update.arrival.time);
-
-            // Only include future arrivals (within next 2 hours)
-            if (arrivalTime > currentTime && arrivalTime < currentTime + 7200) {
-              console.log(
-                `  Match found - Route ID: ${routeId}, Arrival: ${new Date(arrivalTime * 1000).toISOString()}`,
-              );
-
-              if (!arrivals.has(routeId)) {
-                arrivals.set(routeId, []);
-              }
-
-              arrivals.get(routeId)?.push({
-                time: arrivalTime,
-                tripId,
-                delay: update.arrival.delay || 0,
-                uncertainty: update.arrival.uncertainty || undefined,
-                scheduleRelationship: update.scheduleRelationship
-                  ? GtfsRealtimeBindings.transit_realtime.TripUpdate
-                      .StopTimeUpdate.ScheduleRelationship[
-                      update.scheduleRelationship
-                    ]
-                  : undefined,
-              });
-              matchingUpdates++;
-            }
-          }
+        matchedTrips.add(departure.tripId);
+        const cancelled = this.isTripCancelled(realtimeTrip.update);
+        const prediction = cancelled
+          ? undefined
+          : this.predictTripStopTimes(realtimeTrip)?.find(
+              (stop) => stop.stopSequence === departure.stopSequence,
+            );
+        const skipped = !!prediction?.skipped;
+        if ((cancelled || skipped) && !includeCancelled) continue;
+
+        const isPredicted = prediction?.delay !== undefined && !skipped;
+        addArrival(routeId, {
+          time: isPredicted
+            ? departure.time + prediction!.delay!
+            : departure.time,
+          tripId: departure.tripId,
+          stopId: departure.stopId,
+          source: cancelled
+            ? "cancelled"
+            : isPredicted
+              ? "realtime"
+              : "scheduled",
+          skipped,
+          scheduledTime: departure.time,
+          delay: isPredicted ? prediction!.delay : undefined,
+          uncertainty: isPredicted ? prediction!.uncertainty : undefined,
         });
       }
+    }
+
+    // Trips the realtime feed knows about but the schedule window doesn't:
+    // extra service, and trips running far enough behind to fall outside
+    // the lookback
+    for (const [tripId, realtimeTrip] of realtimeTrips) {
+      const { trip, update: tripUpdate, isExtraService } = realtimeTrip;
+      if (matchedTrips.has(tripId) || this.isTripCancelled(tripUpdate)) {
+        continue;
+      }
+      const routeId = trip.routeId;
+      if (routeFilter && routeId !== routeFilter) continue;
+
+      const stopPredictions = this.predictTripStopTimes(realtimeTrip);
+      if (stopPredictions) {
+        const prediction = stopPredictions.find(
+          (stop) =>
+            stopIds.has(stop.stopId) &&
+            !stop.skipped &&
+            stop.time !== undefined &&
+            stop.time > currentTime,
+        );
+        if (prediction && prediction.time! < currentTime + 7200) {
+          addArrival(routeId, {
+            time: prediction.time!,
+            tripId,
+            headsign: trip.tripHeadsign,
+            isExtraService,
+            stopId: prediction.stopId,
+            source: "realtime",
+            scheduledTime: prediction.scheduledTime,
+            delay: prediction.delay,
+            uncertainty: prediction.uncertainty,
+          });
+        }
+        continue;
+      }
+
+      for (const update of tripUpdate.stopTimeUpdate || []) {
+        const updateStopId = this.scopeOptionalId(update.stopId);
+        if (!updateStopId || !stopIds.has(updateStopId)) continue;
+
+        const prediction = this.isStopSkipped(update)
+          ? undefined
+          : this.predictStopTime(update);
+        if (prediction && prediction.time < currentTime + 7200) {
+          addArrival(routeId, {
+            time: prediction.time,
+            tripId,
+            headsign: trip.tripHeadsign,
+            isExtraService,
+            stopId: updateStopId,
+            source: "realtime",
+            delay: prediction.delay,
+            uncertainty: prediction.uncertainty,
+          });
+        }
+        break;
+      }
+    }
+
+    const results = this.formatArrivals(
+      stopId,
+      arrivals,
+      maxArrivals,
+      currentTime,
+    );
+    return options.alerts
+      ? this.addArrivalAlerts(results, options.alerts)
+      : results;
+  }
+
+  // Sort each route's arrivals, keep the first maxArrivals and format them
+  private formatArrivals(
+    stopId: string,
+    arrivals: Map<string, ArrivalCandidate[]>,
+    maxArrivals: number,
+    currentTime: number,
+  ): BusArrival[] {
+    const isStation = this.data.stationStops.has(stopId);
+    console.log(`Processing ${arrivals.size} unique routes with arrivals`);
+
+    const results: BusArrival[] = [];
+    for (const [routeId, arrivalData] of arrivals) {
+      const route = this.resolveRoute(routeId);
+
+      // Sort by time and take requested number of arrivals
+      const sortedArrivals = arrivalData
+        .sort((a, b) => a.time - b.time)
+        .slice(0, maxArrivals);
+
+      const arrivalTimes = sortedArrivals.map((arrival) => {
+        const headsign =
+          arrival.headsign ??
+          this.data.trips.get(arrival.tripId)?.tripHeadsign ??
+          "";
+        const minutesUntilArrival = Math.floor(
+          (arrival.time - currentTime) / 60,
+        );
+        const isCancelled = arrival.source === "cancelled";
+        const isSkipped = !!arrival.skipped;
+
+        return {
+          time: arrival.time,
+          headsign,
+          minutesUntilArrival,
+          delaySeconds: arrival.delay || 0,
+          isRealTime: arrival.source === "realtime",
+          isCancelled,
+          isSkipped,
+          isExtraService: !!arrival.isExtraService,
+          uncertainty: arrival.uncertainty,
+          platformStopId: isStation ? arrival.stopId : undefined,
+          tripId: arrival.tripId,
+          source: arrival.source,
+          scheduledTime: arrival.scheduledTime,
+          status: isCancelled
+            ? "Cancelled"
+            : isSkipped
+              ? "Skipped"
+              : this.getArrivalStatus(minutesUntilArrival, arrival.delay || 0),
+        };
+      });
+
+      results.push({
+        stopId,
+        routeId,
+        routeShortName: route.shortName,
+        routeLongName: route.longName,
+        routeColor: route.routeColor,
+        routeTextColor: route.routeTextColor,
+        tripHeadsign: arrivalTimes[0]?.headsign || "",
+        arrivalTimes,
+      });
+    }
+
+    return results;
+  }
+
+  private isTripCancelled(tripUpdate: TripUpdate): boolean {
+    return tripUpdate.trip?.scheduleRelationship === TripRelationship.CANCELED;
+  }
+
+  private isStopSkipped(update: StopTimeUpdate): boolean {
+    return (
+      update.scheduleRelationship ===
+      GtfsRealtimeBindings.transit_realtime.TripUpdate.StopTimeUpdate
+        .ScheduleRelationship.SKIPPED
+    );
+  }
+
+  private isStopWithoutData(update: StopTimeUpdate): boolean {
+    return (
+      update.scheduleRelationship ===
+      GtfsRealtimeBindings.transit_realtime.TripUpdate.StopTimeUpdate
+        .ScheduleRelationship.NO_DATA
+    );
+  }
+
+  /**
+   * Resolve the trip a trip update is about. Scheduled trips are looked up in
+   * the static data. Duplicated trips run the stop times of the trip they
+   * copy, under the ID and start time in trip_properties. Added and new
+   * trips, and any other trip the static data doesn't know, are built from
+   * the update: the route is looked up or created, and the headsign is the
+   * name of the last stop.
+   */
+  private describeTrip(tripUpdate: TripUpdate): RealtimeTrip | undefined {
+    const descriptor = tripUpdate.trip;
+    const relationship: number | null | undefined =
+      descriptor?.scheduleRelationship;
+    const isDuplicate = relationship === TripRelationship.DUPLICATED;
+    const isExtraService =
+      isDuplicate ||
+      relationship === TripRelationship.ADDED ||
+      relationship === NEW_TRIP_RELATIONSHIP;
+
+    const feedTripId = this.scopeOptionalId(descriptor?.tripId);
+    const properties = isDuplicate ? tripUpdate.tripProperties : undefined;
+    const tripId = this.scopeOptionalId(properties?.tripId) || feedTripId;
+    if (!tripId) return undefined;
+
+    const template = feedTripId ? this.data.trips.get(feedTripId) : undefined;
+    const startDate =
+      properties?.startDate || descriptor?.startDate || undefined;
+    const startTime =
+      properties?.startTime || descriptor?.startTime || undefined;
+
+    if (template && tripId === feedTripId) {
+      return {
+        tripId,
+        trip: template,
+        templateTripId: tripId,
+        startDate,
+        startTime,
+        isExtraService,
+        update: tripUpdate,
+      };
+    }
+
+    const routeId =
+      this.scopeOptionalId(descriptor?.routeId) || template?.routeId;
+    if (!routeId) return undefined;
+
+    return {
+      tripId,
+      trip: {
+        tripId,
+        routeId,
+        serviceId: template?.serviceId || "",
+        tripHeadsign: template?.tripHeadsign || this.inferHeadsign(tripUpdate),
+        directionId: hasField(descriptor, "directionId")
+          ? descriptor.directionId!
+          : template?.directionId,
+        shapeId: template?.shapeId,
+      },
+      templateTripId: template?.tripId,
+      startDate,
+      startTime,
+      isExtraService,
+      update: tripUpdate,
+    };
+  }
+
+  // Stop times of a trip missing from the static data: a duplicated trip's
+  // are the original's moved to its start time, and an added trip's are
+  // the times its updates give
+  private getRealtimeTripStopTimes(realtimeTrip: RealtimeTrip): GTFSStopTime[] {
+    const { tripId, templateTripId, startDate, startTime } = realtimeTrip;
+    const templateStopTimes = templateTripId
+      ? this.data.stopTimes.get(templateTripId)
+      : undefined;
+
+    if (templateStopTimes && templateStopTimes.length > 0) {
+      const shift = startTime
+        ? parseGtfsTimeOfDay(startTime) -
+          parseGtfsTimeOfDay(templateStopTimes[0].arrivalTime)
+        : 0;
+      const move = (time: string) =>
+        formatGtfsTime(parseGtfsTimeOfDay(time) + (isNaN(shift) ? 0 : shift));
+      return templateStopTimes.map((stopTime) => ({
+        ...stopTime,
+        tripId,
+        arrivalTime: move(stopTime.arrivalTime),
+        departureTime: move(stopTime.departureTime),
+      }));
+    }
+
+    const serviceDayStart = getServiceDayStart(
+      startDate || formatServiceDate(new Date(), this.data.timeZone),
+      this.data.timeZone,
+    );
+    const stopTimes: GTFSStopTime[] = [];
+    (realtimeTrip.update.stopTimeUpdate || []).forEach((update, index) => {
+      const stopId = this.scopeOptionalId(update.stopId);
+      const prediction = this.predictStopTime(update);
+      if (!stopId || !prediction || prediction.time < serviceDayStart) return;
+
+      const time = formatGtfsTime(prediction.time - serviceDayStart);
+      stopTimes.push({
+        tripId,
+        arrivalTime: time,
+        departureTime: time,
+        stopId,
+        stopSequence: hasField(update, "stopSequence")
+          ? update.stopSequence!
+          : index + 1,
+      });
     });
+    return stopTimes;
+  }
+
+  // The name of the last stop a trip update mentions
+  private inferHeadsign(tripUpdate: TripUpdate): string {
+    const updates = tripUpdate.stopTimeUpdate || [];
+    for (let i = updates.length - 1; i >= 0; i--) {
+      const stopId = this.scopeOptionalId(updates[i].stopId);
+      const stop = stopId ? this.data.stops.get(stopId) : undefined;
+      if (stop) return stop.stopName;
+    }
+    return "";
+  }
+
+  // The time a stop time update predicts, arrival before departure. Some
+  // producers only send a delay, which needs the scheduled time to apply to.
+  private predictStopTime(
+    update: StopTimeUpdate,
+    scheduledTime?: number,
+  ): { time: number; delay?: number; uncertainty?: number } | undefined {
+    const timed = hasField(update.arrival, "time")
+      ? update.arrival
+      : hasField(update.departure, "time")
+        ? update.departure
+        : undefined;
+    if (timed) {
+      const time = Number(timed.time);
+      return {
+        time,
+        delay: hasField(timed, "delay")
+          ? timed.delay!
+          : scheduledTime !== undefined
+            ? time - scheduledTime
+            : undefined,
+        uncertainty: timed.uncertainty || undefined,
+      };
+    }
+
+    const delayed = hasField(update.arrival, "delay")
+      ? update.arrival
+      : hasField(update.departure, "delay")
+        ? update.departure
+        : undefined;
+    if (!delayed || scheduledTime === undefined) return undefined;
+    return {
+      time: scheduledTime + delayed.delay!,
+      delay: delayed.delay!,
+      uncertainty: delayed.uncertainty || undefined,
+    };
+  }
 
-    console.log(`Found ${matchingUpdates} matching updates for stop ${stopId}`);
+  /**
+   * Predictions for every stop of the trip a trip update describes, following
+   * the GTFS-realtime propagation rules: an update's delay carries forward to
+   * the following stops until the next update, NO_DATA clears it, and stops
+   * before the first update have no prediction. Updates are matched to stops
+   * by stop_sequence when they carry one, since a stop can be visited twice
+   * on a loop, and by stop ID otherwise. Undefined if the trip has no stop
+   * times in the static data (e.g. an added trip).
+   */
+  private predictTripStopTimes(
+    realtimeTrip: RealtimeTrip,
+  ): TripStopPrediction[] | undefined {
+    const { templateTripId, update: tripUpdate } = realtimeTrip;
+    const stopTimes = templateTripId
+      ? this.data.stopTimes.get(templateTripId)
+      : undefined;
+    if (!stopTimes || stopTimes.length === 0) return undefined;
+
+    const offset = this.getTripScheduleOffset(realtimeTrip, stopTimes);
+    const updates = this.matchStopTimeUpdates(tripUpdate, stopTimes);
+
+    // A trip-level delay applies until the first stop time update
+    let delay = hasField(tripUpdate, "delay") ? tripUpdate.delay! : undefined;
+    let uncertainty: number | undefined;
+
+    return stopTimes.map((stopTime, index) => {
+      const scheduledTime =
+        offset !== undefined
+          ? offset + parseGtfsTimeOfDay(stopTime.arrivalTime)
+          : undefined;
+      const update = updates.get(index);
+      const skipped = !!update && this.isStopSkipped(update);
+      const prediction =
+        update && !skipped
+          ? this.predictStopTime(update, scheduledTime)
+          : undefined;
+
+      if (update && this.isStopWithoutData(update)) {
+        delay = undefined;
+        uncertainty = undefined;
+      } else if (prediction) {
+        delay = prediction.delay;
+        uncertainty = prediction.uncertainty;
+      }
 
-    // Format results with enhanced timing information
-    console.log(`Processing ${arrivals.size} unique routes with arrivals`);
+      return {
+        stopId: stopTime.stopId,
+        stopSequence: stopTime.stopSequence,
+        scheduledTime,
+        time:
+          prediction?.time ??
+          (scheduledTime !== undefined && delay !== undefined
+            ? scheduledTime + delay
+            : undefined),
+        delay,
+        uncertainty,
+        skipped,
+        propagated: !prediction && delay !== undefined,
+      };
+    });
+  }
 
-    const results: BusArrival[] = [];
-    for (const [routeId, arrivalData] of arrivals) {
-      console.log(
-        `Processing route ${routeId} with ${arrivalData.length} arrival times`,
+  // Which of a trip's stop times each stop time update is for, by index.
+  // Updates are in stop order, so each is looked for after the last match.
+  private matchStopTimeUpdates(
+    tripUpdate: TripUpdate,
+    stopTimes: GTFSStopTime[],
+  ): Map<number, StopTimeUpdate> {
+    const matched = new Map<number, StopTimeUpdate>();
+    let from = 0;
+
+    for (const update of tripUpdate.stopTimeUpdate || []) {
+      const updateStopId = this.scopeOptionalId(update.stopId);
+      const bySequence = hasField(update, "stopSequence");
+      const index = stopTimes.findIndex(
+        (stopTime, i) =>
+          i >= from &&
+          (bySequence
+            ? stopTime.stopSequence === update.stopSequence
+            : stopTime.stopId === updateStopId),
       );
+      if (index === -1) continue;
 
-      const route = this.routes.get(routeId);
-      if (route) {
-        // Sort by time and take requested number of arrivals
-        const sortedArrivals = arrivalData
-          .sort((a, b) => a.time - b.time)
-          .slice(0, maxArrivals);
-
-        console.log(
-          `  Route details found - Short name: ${route.shortName}, Long name: ${route.longName}`,
-        );
-        console.log(
-          `  Arrival times: ${sortedArrivals.map((a) => new Date(a.time * 1000).toISOString())}`,
-        );
-
-        // Get headsigns and enhanced timing info for each arrival
-        const arrivalTimesWithHeadsigns = sortedArrivals.map((arrival) => {
-          const trip = this.trips.get(arrival.tripId);
-          const minutesUntilArrival = Math.floor(
-            (arrival.time - currentTime) / 60,
-          );
+      matched.set(index, update);
+      from = index + 1;
+    }
 
-          return {
-            time: arrival.time,
-            headsign: trip?.tripHeadsign || "",
-            minutesUntilArrival,
-            delaySeconds: arrival.delay || 0,
-            isRealTime: arrival.scheduleRelationship !== "SCHEDULED",
-            uncertainty: arrival.uncertainty,
-            status: this.getArrivalStatus(
-              minutesUntilArrival,
-              arrival.delay || 0,
-            ),
-          };
-        });
+    return matched;
+  }
 
-        results.push({
-          stopId,
-          routeId,
-          routeShortName: route.shortName,
-          routeLongName: route.longName,
-          routeColor: route.routeColor,
-          routeTextColor: route.routeTextColor,
-          tripHeadsign: arrivalTimesWithHeadsigns[0]?.headsign || "",
-          arrivalTimes: arrivalTimesWithHeadsigns,
-        });
-      } else {
-        console.warn(`  No route details found for route ID: ${routeId}`);
-      }
+  // What to add to a trip's GTFS times of day to get Unix timestamps for the
+  // instance a trip update describes. Without a start date that is the
+  // instance from yesterday's or today's service day starting nearest to
+  // now. Frequency-based and duplicated trips run their stop times from
+  // another start time, so they also need that start time.
+  private getTripScheduleOffset(
+    { tripId, templateTripId, startDate, startTime }: RealtimeTrip,
+    stopTimes: GTFSStopTime[],
+  ): number | undefined {
+    const firstTime = parseGtfsTimeOfDay(stopTimes[0].arrivalTime);
+    let shift = 0;
+    if (
+      tripId !== templateTripId ||
+      this.data.frequencies.has(templateTripId)
+    ) {
+      if (!startTime) return undefined;
+      shift = parseGtfsTimeOfDay(startTime) - firstTime;
     }
+    if (isNaN(firstTime) || isNaN(shift)) return undefined;
+
+    const { timeZone } = this.data;
+    const today = formatServiceDate(new Date(), timeZone);
+    const currentTime = Date.now() / 1000;
+    const [serviceDayStart] = (
+      startDate ? [startDate] : [addServiceDays(today, -1), today]
+    )
+      .map((date) => getServiceDayStart(date, timeZone))
+      .sort(
+        (a, b) =>
+          Math.abs(a + firstTime + shift - currentTime) -
+          Math.abs(b + firstTime + shift - currentTime),
+      );
 
-    return results;
+    return serviceDayStart + shift;
+  }
+
+  // A station stands for all of its platforms; any other stop for itself
+  private resolveStopIds(stopId: string): Set<string> {
+    return new Set([stopId, ...(this.data.stationStops.get(stopId) || [])]);
   }
 
   private getArrivalStatus(minutesUntil: number, delaySeconds: number): string {
@@ -496,67 +2114,129 @@ export class GTFSService {
     return `${minutesUntil} min`;
   }
 
-  // Parse GTFS time format (HH:MM:SS) to today's timestamp
-  private parseGtfsTime(timeStr: string): number {
-    const [hours, minutes, seconds] = timeStr.split(":").map(Number);
-    const now = new Date();
-    const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  // Scheduled departures from a stop (or every platform of a station) after
+  // fromTime, grouped by route. Without a service date this covers the next
+  // 24 hours; with one, the rest of that service day.
+  private collectScheduledDepartures(
+    stopId: string,
+    routeFilter: string | undefined,
+    maxPerRoute: number,
+    fromTime: number,
+    serviceDate?: string,
+  ): Map<string, ScheduledStopDeparture[]> {
+    const departures = new Map<string, ScheduledStopDeparture[]>();
+    const schedules = Array.from(
+      this.resolveStopIds(stopId),
+      (id) => this.data.stopSchedule.get(id) || [],
+    );
+
+    // Headway-based windows (exact_times=0) are listed once, at their next
+    // estimated departure, rather than as a run of approximate times
+    const listedWindows = new Set<string>();
+
+    // Some feeds publish duplicate trips (e.g. slight pattern variations
+    // under the same route) that would show up as the same departure twice,
+    // so departures are deduplicated by time and headsign
+    const listedDepartures = new Set<string>();
+
+    // Trips from yesterday's service day can run past midnight (25:00:00 etc.)
+    // and tomorrow's can fall inside the next 24 hours
+    const today = formatServiceDate(new Date(), this.data.timeZone);
+    const serviceDates = serviceDate
+      ? [serviceDate]
+      : [addServiceDays(today, -1), today, addServiceDays(today, 1)];
+    const windowEnd = serviceDate ? Infinity : fromTime + 86400;
+
+    for (const date of serviceDates) {
+      const serviceIds = this.getActiveServiceIds(date);
+      const serviceDayStart = getServiceDayStart(date, this.data.timeZone);
+
+      for (const schedule of schedules) {
+        // Each schedule is sorted by time, so start at the first departure
+        // after fromTime and stop at the end of the window
+        let listedForRoute = 0;
+        for (
+          let i = this.findFirstDepartureAfter(
+            schedule,
+            fromTime - serviceDayStart,
+          );
+          i < schedule.length;
+          i++
+        ) {
+          const departure = schedule[i];
+          const departureTime = serviceDayStart + departure.timeOfDay;
+          if (departureTime >= windowEnd) break;
+
+          const trip = this.data.trips.get(departure.tripId);
+          if (!trip) continue;
+
+          // Apply route filter if specified
+          if (routeFilter && trip.routeId !== routeFilter) continue;
+
+          // Skip service days on which this trip does not run
+          if (serviceIds && !serviceIds.has(trip.serviceId)) continue;
+
+          const window =
+            departure.windowIndex !== undefined
+              ? this.data.frequencies.get(departure.tripId)?.[
+                  departure.windowIndex
+                ]
+              : undefined;
+          const headwaySecs =
+            window && !window.exactTimes ? window.headwaySecs : undefined;
+          if (headwaySecs) {
+            const windowKey = `${date}|${departure.tripId}|${departure.windowIndex}`;
+            if (listedWindows.has(windowKey)) continue;
+            listedWindows.add(windowKey);
+          }
+
+          const departureKey = `${trip.routeId}|${departureTime}|${trip.tripHeadsign}`;
+          if (listedDepartures.has(departureKey)) continue;
+          listedDepartures.add(departureKey);
 
-    // Handle times past midnight (e.g., 24:30:00, 25:15:00)
-    if (hours >= 24) {
-      today.setDate(today.getDate() + 1);
-      today.setHours(hours - 24, minutes, seconds, 0);
-    } else {
-      today.setHours(hours, minutes, seconds, 0);
+          if (!departures.has(trip.routeId)) {
+            departures.set(trip.routeId, []);
+          }
+          departures.get(trip.routeId)?.push({
+            time: departureTime,
+            tripId: departure.tripId,
+            stopId: departure.stopId,
+            stopSequence: departure.stopSequence,
+            serviceDate: date,
+            headwaySecs,
+          });
+
+          // With a single route, later departures on this day can't make
+          // the cut once enough have been found
+          if (routeFilter && ++listedForRoute >= maxPerRoute) break;
+        }
+      }
     }
 
-    return Math.floor(today.getTime() / 1000);
+    return departures;
   }
 
-  // Get scheduled departures for a stop
+  // Get scheduled departures for a stop. Without a service date this covers
+  // the next 24 hours; with one, the remaining departures of that service day.
   async getScheduledDepartures(
     stopId: string,
     routeFilter?: string,
     maxDepartures: number = 5,
+    serviceDate?: string,
   ): Promise<BusDeparture[]> {
     console.log(
-      `Fetching scheduled departures for stop ID: ${stopId}${routeFilter ? `, route: ${routeFilter}` : ""}`,
+      `Fetching scheduled departures for stop ID: ${stopId}${routeFilter ? `, route: ${routeFilter}` : ""}${serviceDate ? `, date: ${serviceDate}` : ""}`,
     );
 
     const currentTime = Math.floor(Date.now() / 1000);
-    const departures = new Map<
-      string,
-      Array<{
-        time: number;
-        tripId: string;
-      }>
-    >();
-
-    // Process all trips and their stop times to find departures at this stop
-    for (const [tripId, stopTimes] of this.stopTimes) {
-      const trip = this.trips.get(tripId);
-      if (!trip) continue;
-
-      // Apply route filter if specified
-      if (routeFilter && trip.routeId !== routeFilter) continue;
-
-      // Find the stop time for this stop
-      const stopTime = stopTimes.find((st) => st.stopId === stopId);
-      if (!stopTime) continue;
-
-      const departureTime = this.parseGtfsTime(stopTime.departureTime);
-
-      // Only include future departures within the next 24 hours
-      if (departureTime > currentTime && departureTime < currentTime + 86400) {
-        if (!departures.has(trip.routeId)) {
-          departures.set(trip.routeId, []);
-        }
-        departures.get(trip.routeId)?.push({
-          time: departureTime,
-          tripId,
-        });
-      }
-    }
+    const isStation = this.data.stationStops.has(stopId);
+    const departures = this.collectScheduledDepartures(
+      stopId,
+      routeFilter,
+      maxDepartures,
+      currentTime,
+      serviceDate,
+    );
 
     const results: BusDeparture[] = [];
 
@@ -566,29 +2246,9 @@ export class GTFSService {
         `Processing route ${routeId} with ${departureData.length} departure times`,
       );
 
-      const route = this.routes.get(routeId);
+      const route = this.data.routes.get(routeId);
       if (route) {
-        // Deduplicate departures by time - GTFS data often contains multiple trips for the same route
-        // that have identical departure times from the same stop. This can happen due to:
-        // 1. Multiple service calendars (weekday/weekend/holiday variants with same schedules)
-        // 2. Multiple trip patterns (express/local/limited variants departing at same time)
-        // 3. Different directional trips or slight route variations under same route ID
-        // Without deduplication, each departure time appears multiple times in the API response
-        const uniqueDepartures = new Map<
-          number,
-          { time: number; tripId: string }
-        >();
-        departureData.forEach((departure) => {
-          if (!uniqueDepartures.has(departure.time)) {
-            uniqueDepartures.set(departure.time, departure);
-          }
-        });
-
-        console.log(
-          `  Before deduplication: ${departureData.length} departures, after deduplication: ${uniqueDepartures.size} departures`,
-        );
-
-        const sortedDepartures = Array.from(uniqueDepartures.values())
+        const sortedDepartures = departureData
           .sort((a, b) => a.time - b.time)
           .slice(0, maxDepartures);
 
@@ -602,17 +2262,24 @@ export class GTFSService {
         // Get headsigns and timing info for each departure
         const departureTimesWithHeadsigns = sortedDepartures.map(
           (departure) => {
-            const trip = this.trips.get(departure.tripId);
+            const trip = this.data.trips.get(departure.tripId);
             const minutesUntilDeparture = Math.floor(
               (departure.time - currentTime) / 60,
             );
+            const headwayMinutes = departure.headwaySecs
+              ? Math.round(departure.headwaySecs / 60)
+              : undefined;
 
             return {
               time: departure.time,
               headsign: trip?.tripHeadsign || "",
               minutesUntilDeparture,
               isScheduled: true,
-              status: this.getDepartureStatus(minutesUntilDeparture),
+              headwayMinutes,
+              platformStopId: isStation ? departure.stopId : undefined,
+              status: headwayMinutes
+                ? `Every ${headwayMinutes} min`
+                : this.getDepartureStatus(minutesUntilDeparture),
             };
           },
         );
@@ -663,231 +2330,898 @@ export class GTFSService {
     stopId: string,
     routeId: string,
   ): Promise<BusArrival | null> {
-    const arrivals = await this.getNextArrivals(stopId, routeId, 1);
+    // The next bus that will actually come
+    const arrivals = await this.getNextArrivals(stopId, routeId, 1, {
+      includeCancelled: false,
+    });
     return arrivals.length > 0 ? arrivals[0] : null;
   }
 
+  // Stops within a radius, nearest first; with a limit, only the nearest
+  // `limit` stops within it
   async getNearbyStops(
     latitude: number,
     longitude: number,
     radiusMeters: number = 500,
+    limit?: number,
   ): Promise<NearbyStop[]> {
-    const nearbyStops: NearbyStop[] = [];
-
-    for (const [stopId, stop] of this.stops) {
-      const distance = this.calculateDistance(
-        latitude,
-        longitude,
-        stop.stopLat,
-        stop.stopLon,
-      );
+    const matches = limit
+      ? this.data.stopGrid.nearest(latitude, longitude, limit, radiusMeters)
+      : this.data.stopGrid.withinRadius(latitude, longitude, radiusMeters);
+
+    return matches.map(({ item, distance }) => ({
+      stop: item,
+      distance: Math.round(distance),
+    }));
+  }
 
-      if (distance <= radiusMeters) {
-        nearbyStops.push({
-          stop,
-          distance: Math.round(distance),
-        });
-      }
-    }
+  getStopsInBounds(bounds: BoundingBox): GTFSStop[] {
+    return this.data.stopGrid.withinBounds(bounds);
+  }
+
+  async getVehiclePositions(
+    routeId?: string,
+    options: VehicleOptions = {},
+  ): Promise<VehiclePosition[]> {
+    const { feed } = await this.realtimeFeeds.vehiclePositions.get();
 
-    // Sort by distance
-    nearbyStops.sort((a, b) => a.distance - b.distance);
+    const vehicles: VehiclePosition[] = [];
 
-    return nearbyStops;
-  }
+    feed.entity.forEach((entity) => {
+      const vehicle = this.toVehiclePosition(entity);
 
-  async getVehiclePositions(routeId?: string): Promise<VehiclePosition[]> {
-    console.log(`Fetching vehicle positions from: ${this.vehiclePositionsUrl}`);
+      // Filter by route if specified
+      if (vehicle && (!routeId || vehicle.routeId === routeId)) {
+        vehicles.push(vehicle);
+      }
+    });
 
-    const response = await fetch(this.vehiclePositionsUrl);
-    if (!response.ok) {
-      throw new Error(
-        `Failed to fetch vehicle positions: ${response.status} ${response.statusText}`,
+    return options.details ? this.addVehicleDetails(vehicles) : vehicles;
+  }
+
+  // Route styling, trip headsign, current stop and delay for each vehicle,
+  // so clients don't have to look up every bus's trip and route
+  private async addVehicleDetails(
+    vehicles: VehiclePosition[],
+  ): Promise<VehiclePosition[]> {
+    // Delays come from the trip updates feed; without it vehicles are still
+    // listed, just without delays
+    const realtimeTrips = new Map<string, RealtimeTrip>();
+    try {
+      const { feed } = await this.realtimeFeeds.tripUpdates.get();
+      feed.entity.forEach((entity) => {
+        const realtimeTrip = entity.tripUpdate
+          ? this.describeTrip(entity.tripUpdate)
+          : undefined;
+        if (realtimeTrip) {
+          realtimeTrips.set(realtimeTrip.tripId, realtimeTrip);
+        }
+      });
+    } catch (error) {
+      console.warn(
+        "Trip updates unavailable, listing vehicles without delays:",
+        error instanceof Error ? error.message : error,
       );
     }
 
-    const buffer = await response.arrayBuffer();
-    const feed = GtfsRealtimeBindings.transit_realtime.FeedMessage.decode(
-      new Uint8Array(buffer),
-    );
+    return vehicles.map((vehicle) => {
+      const realtimeTrip = vehicle.tripId
+        ? realtimeTrips.get(vehicle.tripId)
+        : undefined;
+      const trip =
+        realtimeTrip?.trip ??
+        (vehicle.tripId ? this.data.trips.get(vehicle.tripId) : undefined);
+      const routeId = vehicle.routeId || trip?.routeId;
+      const route = routeId ? this.resolveRoute(routeId) : undefined;
+      const currentStop = this.resolveVehicleStop(
+        vehicle,
+        realtimeTrip?.templateTripId ?? vehicle.tripId,
+      );
 
-    const vehicles: VehiclePosition[] = [];
+      // The predicted delay at the vehicle's stop, or failing that the next
+      // one along the trip; trips the static data doesn't have only have
+      // the delay reported for the trip as a whole
+      const predictions = realtimeTrip
+        ? this.predictTripStopTimes(realtimeTrip)
+        : undefined;
+      const fromSequence = currentStop?.stopSequence ?? -Infinity;
+      const delay =
+        predictions?.find(
+          (prediction) =>
+            prediction.stopSequence >= fromSequence &&
+            prediction.delay !== undefined,
+        )?.delay ??
+        (hasField(realtimeTrip?.update, "delay")
+          ? realtimeTrip!.update.delay!
+          : undefined);
+
+      return {
+        ...vehicle,
+        routeShortName: route?.shortName,
+        routeColor: route?.routeColor,
+        routeTextColor: route?.routeTextColor,
+        tripHeadsign: trip?.tripHeadsign,
+        currentStop,
+        delay,
+      };
+    });
+  }
 
-    feed.entity.forEach((entity) => {
-      if (entity.vehicle && entity.vehicle.position) {
-        const vehicle = entity.vehicle;
-        const position = vehicle.position;
-        const trip = vehicle.trip;
+  // The stop a vehicle reports being at or heading to, by stop ID or by its
+  // position in the trip's stop times
+  private resolveVehicleStop(
+    vehicle: VehiclePosition,
+    stopTimesTripId?: string,
+  ): VehicleStop | undefined {
+    const stopTimes = stopTimesTripId
+      ? this.data.stopTimes.get(stopTimesTripId) || []
+      : [];
+    const stopTime = stopTimes.find((candidate) =>
+      vehicle.currentStopSequence !== undefined
+        ? candidate.stopSequence === vehicle.currentStopSequence
+        : candidate.stopId === vehicle.stopId,
+    );
 
-        // Filter by route if specified
-        if (routeId && trip?.routeId !== routeId) {
-          return;
-        }
+    const stopId = vehicle.stopId || stopTime?.stopId;
+    if (!stopId) return undefined;
 
-        if (
-          position &&
-          position.latitude !== undefined &&
-          position.longitude !== undefined
-        ) {
-          vehicles.push({
-            vehicleId: vehicle.vehicle?.id || entity.id,
-            routeId: trip?.routeId || "",
-            tripId: trip?.tripId || undefined,
-            latitude: position.latitude,
-            longitude: position.longitude,
-            bearing: position.bearing || undefined,
-            speed: position.speed || undefined,
-            timestamp: vehicle.timestamp
-              ? Number(vehicle.timestamp)
-              : Date.now() / 1000,
-            occupancyStatus: vehicle.occupancyStatus
-              ? GtfsRealtimeBindings.transit_realtime.VehiclePosition
-                  .OccupancyStatus[vehicle.occupancyStatus]
-              : undefined,
-            congestionLevel: vehicle.congestionLevel
-              ? GtfsRealtimeBindings.transit_realtime.VehiclePosition
-                  .CongestionLevel[vehicle.congestionLevel]
-              : undefined,
-          });
-        }
-      }
-    });
+    return {
+      stopId,
+      stopName: this.data.stops.get(stopId)?.stopName,
+      stopSequence: vehicle.currentStopSequence ?? stopTime?.stopSequence,
+      // The spec's default when a stop is given without a status
+      status: vehicle.currentStatus || "IN_TRANSIT_TO",
+    };
+  }
 
-    return vehicles;
+  private toVehiclePosition(entity: FeedEntity): VehiclePosition | undefined {
+    const vehicle = entity.vehicle;
+    const position = vehicle?.position;
+    if (
+      !vehicle ||
+      !position ||
+      position.latitude === undefined ||
+      position.longitude === undefined
+    ) {
+      return undefined;
+    }
+
+    const trip = vehicle.trip;
+    const tripId = this.scopeOptionalId(trip?.tripId);
+    return {
+      vehicleId: this.scopeId(vehicle.vehicle?.id || entity.id),
+      routeId:
+        this.scopeOptionalId(trip?.routeId) ||
+        (tripId && this.data.trips.get(tripId)?.routeId) ||
+        "",
+      tripId,
+      latitude: position.latitude,
+      longitude: position.longitude,
+      bearing: position.bearing || undefined,
+      speed: position.speed || undefined,
+      timestamp: vehicle.timestamp
+        ? Number(vehicle.timestamp)
+        : Date.now() / 1000,
+      occupancyStatus: vehicle.occupancyStatus
+        ? GtfsRealtimeBindings.transit_realtime.VehiclePosition.OccupancyStatus[
+            vehicle.occupancyStatus
+          ]
+        : undefined,
+      congestionLevel: vehicle.congestionLevel
+        ? GtfsRealtimeBindings.transit_realtime.VehiclePosition.CongestionLevel[
+            vehicle.congestionLevel
+          ]
+        : undefined,
+      stopId: this.scopeOptionalId(vehicle.stopId),
+      currentStopSequence: hasField(vehicle, "currentStopSequence")
+        ? vehicle.currentStopSequence!
+        : undefined,
+      currentStatus: hasField(vehicle, "currentStatus")
+        ? GtfsRealtimeBindings.transit_realtime.VehiclePosition
+            .VehicleStopStatus[vehicle.currentStatus!]
+        : undefined,
+    };
   }
 
+  // Alerts, optionally only those affecting a route and/or stop (see
+  // alertAffects) and those active or upcoming at a given time
   async getServiceAlerts(
     routeId?: string,
     stopId?: string,
+    options: AlertOptions = {},
   ): Promise<ServiceAlert[]> {
-    console.log(`Fetching service alerts from: ${this.alertsUrl}`);
-
-    const response = await fetch(this.alertsUrl);
-    if (!response.ok) {
-      throw new Error(
-        `Failed to fetch service alerts: ${response.status} ${response.statusText}`,
-      );
-    }
+    const { feed } = await this.realtimeFeeds.alerts.get();
 
-    const buffer = await response.arrayBuffer();
-    const feed = GtfsRealtimeBindings.transit_realtime.FeedMessage.decode(
-      new Uint8Array(buffer),
-    );
+    const target: AlertTarget | undefined =
+      routeId || stopId
+        ? {
+            routeId,
+            stopIds: stopId ? this.getAlertStopIds(stopId) : undefined,
+          }
+        : undefined;
+    const period = options.period ?? "all";
+    const at = options.at ?? Math.floor(Date.now() / 1000);
 
     const alerts: ServiceAlert[] = [];
 
     feed.entity.forEach((entity) => {
       if (entity.alert) {
-        const alert = entity.alert;
-
-        // Filter by route or stop if specified
-        if (routeId || stopId) {
-          const matchesFilter = alert.informedEntity?.some(
-            (informed) =>
-              (routeId && informed.routeId === routeId) ||
-              (stopId && informed.stopId === stopId),
-          );
+        const alert = this.toServiceAlert(entity.id, entity.alert, options);
+        if (!this.isAlertInPeriod(alert, period, at)) return;
+        if (target && !this.alertAffects(alert, target)) return;
 
-          if (!matchesFilter) {
-            return;
-          }
-        }
-
-        alerts.push({
-          alertId: entity.id,
-          headerText: alert.headerText?.translation?.[0]?.text || "",
-          descriptionText: alert.descriptionText?.translation?.[0]?.text || "",
-          severity: alert.severityLevel
-            ? GtfsRealtimeBindings.transit_realtime.Alert.SeverityLevel[
-                alert.severityLevel
-              ]
-            : undefined,
-          effect: alert.effect
-            ? GtfsRealtimeBindings.transit_realtime.Alert.Effect[alert.effect]
-            : undefined,
-          activePeriods:
-            alert.activePeriod?.map((period) => ({
-              start: period.start ? Number(period.start) : undefined,
-              end: period.end ? Number(period.end) : undefined,
-            })) || [],
-          informedEntities:
-            alert.informedEntity?.map((informed) => ({
-              routeId: informed.routeId || undefined,
-              stopId: informed.stopId || undefined,
-              agencyId: informed.agencyId || undefined,
-            })) || [],
-        });
+        alerts.push(alert);
       }
     });
 
     return alerts;
   }
 
+  // Alerts to attach to other responses, active ones by default. An alerts
+  // feed outage leaves them out rather than failing the request.
+  private async getAttachableAlerts(
+    options: AlertOptions,
+  ): Promise<ServiceAlert[]> {
+    try {
+      return await this.getServiceAlerts(undefined, undefined, {
+        period: "active",
+        ...options,
+      });
+    } catch (error) {
+      console.warn(
+        "Service alerts unavailable, responding without them:",
+        error instanceof Error ? error.message : error,
+      );
+      return [];
+    }
+  }
+
+  // An alert without active periods is always active, and a period missing
+  // its start or end is open on that side. Upcoming alerts aren't active
+  // yet but have a period starting later.
+  private isAlertInPeriod(
+    alert: ServiceAlert,
+    period: AlertPeriodFilter,
+    at: number,
+  ): boolean {
+    if (period === "all") return true;
+
+    const periods = alert.activePeriods;
+    const active =
+      periods.length === 0 ||
+      periods.some(
+        ({ start, end }) =>
+          (start === undefined || start <= at) &&
+          (end === undefined || at < end),
+      );
+    if (period === "active") return active;
+
+    return (
+      !active && periods.some(({ start }) => start !== undefined && start > at)
+    );
+  }
+
+  /**
+   * Whether an alert affects a route, stops or trip. An informed entity
+   * affects the target when one of its fields points at it (the route, one
+   * of the stops, the trip, the route's type, or a stop the entity's trip
+   * serves) and no field given by both disagrees; so a route-wide alert
+   * matches any of the route's trips, but one for the route at another stop
+   * doesn't. Agency-wide entities affect everything.
+   */
+  private alertAffects(alert: ServiceAlert, target: AlertTarget): boolean {
+    const targetRouteType = target.routeId
+      ? this.data.routes.get(target.routeId)?.routeType
+      : undefined;
+
+    return alert.informedEntities.some((entity) => {
+      const { routeId, stopId, tripId, routeType, directionId } = entity;
+      if (!routeId && !stopId && !tripId && routeType === undefined) {
+        return true;
+      }
+
+      if (routeId && target.routeId && routeId !== target.routeId) {
+        return false;
+      }
+      if (stopId && target.stopIds && !target.stopIds.has(stopId)) {
+        return false;
+      }
+      if (tripId && target.tripId && tripId !== target.tripId) return false;
+      if (
+        routeType !== undefined &&
+        targetRouteType !== undefined &&
+        routeType !== targetRouteType
+      ) {
+        return false;
+      }
+      if (
+        directionId !== undefined &&
+        target.directionId !== undefined &&
+        directionId !== target.directionId
+      ) {
+        return false;
+      }
+
+      return (
+        (!!routeId && routeId === target.routeId) ||
+        (!!stopId && !!target.stopIds?.has(stopId)) ||
+        (!!tripId && tripId === target.tripId) ||
+        (!!tripId &&
+          !stopId &&
+          !!target.stopIds &&
+          this.tripServesAny(tripId, target.stopIds)) ||
+        (!routeId && routeType !== undefined && routeType === targetRouteType)
+      );
+    });
+  }
+
+  private tripServesAny(tripId: string, stopIds: Set<string>): boolean {
+    return (this.data.stopTimes.get(tripId) || []).some((stopTime) =>
+      stopIds.has(stopTime.stopId),
+    );
+  }
+
+  // Alerts for a stop also cover its station, and a station's its platforms
+  private getAlertStopIds(stopId: string): Set<string> {
+    const stopIds = this.resolveStopIds(stopId);
+    const parentStation = this.data.stops.get(stopId)?.parentStation;
+    if (parentStation) stopIds.add(parentStation);
+    return stopIds;
+  }
+
+  // Mark each arrival with the alerts affecting its trip at its stop, and
+  // list them once per route
+  private async addArrivalAlerts(
+    arrivals: BusArrival[],
+    options: AlertOptions,
+  ): Promise<BusArrival[]> {
+    if (arrivals.length === 0) return arrivals;
+    const alerts = await this.getAttachableAlerts(options);
+    if (alerts.length === 0) return arrivals;
+
+    return arrivals.map((arrival) => {
+      const affecting = new Map<string, ServiceAlert>();
+      const arrivalTimes = arrival.arrivalTimes.map((arrivalTime) => {
+        const { tripId, platformStopId } = arrivalTime;
+        const matched = alerts.filter((alert) =>
+          this.alertAffects(alert, {
+            routeId: arrival.routeId,
+            stopIds: this.getAlertStopIds(platformStopId ?? arrival.stopId),
+            tripId,
+            directionId: tripId
+              ? this.data.trips.get(tripId)?.directionId
+              : undefined,
+          }),
+        );
+        if (matched.length === 0) return arrivalTime;
+
+        matched.forEach((alert) => affecting.set(alert.alertId, alert));
+        return {
+          ...arrivalTime,
+          alertIds: matched.map((alert) => alert.alertId),
+        };
+      });
+
+      return affecting.size > 0
+        ? { ...arrival, arrivalTimes, alerts: Array.from(affecting.values()) }
+        : arrival;
+    });
+  }
+
+  // Alert text is in the reader's best language (see pickTranslation), with
+  // every translation alongside if asked for
+  private toServiceAlert(
+    entityId: string,
+    alert: GtfsRealtimeBindings.transit_realtime.IAlert,
+    { languages, includeTranslations }: AlertOptions = {},
+  ): ServiceAlert {
+    const Alert = GtfsRealtimeBindings.transit_realtime.Alert;
+    const pick = (
+      text?: GtfsRealtimeBindings.transit_realtime.ITranslatedString | null,
+    ) => pickTranslation(text?.translation, languages);
+    const all = (
+      text?: GtfsRealtimeBindings.transit_realtime.ITranslatedString | null,
+    ): AlertText[] =>
+      (text?.translation || [])
+        .filter((translation) => translation.text)
+        .map((translation) => ({
+          text: translation.text,
+          language: translation.language || undefined,
+        }));
+
+    const header = pick(alert.headerText);
+    return {
+      alertId: this.scopeId(entityId),
+      headerText: header?.text || "",
+      descriptionText: pick(alert.descriptionText)?.text || "",
+      language: header?.language || undefined,
+      url: pick(alert.url)?.text || undefined,
+      ttsHeaderText: pick(alert.ttsHeaderText)?.text || undefined,
+      ttsDescriptionText: pick(alert.ttsDescriptionText)?.text || undefined,
+      // Unset fields decode as the spec's defaults; values added to the spec
+      // after these bindings fall back to them as well
+      cause:
+        Alert.Cause[alert.cause ?? Alert.Cause.UNKNOWN_CAUSE] ||
+        "UNKNOWN_CAUSE",
+      effect:
+        Alert.Effect[alert.effect ?? Alert.Effect.UNKNOWN_EFFECT] ||
+        "UNKNOWN_EFFECT",
+      severity:
+        Alert.SeverityLevel[
+          alert.severityLevel ?? Alert.SeverityLevel.UNKNOWN_SEVERITY
+        ] || "UNKNOWN_SEVERITY",
+      activePeriods:
+        alert.activePeriod?.map((period) => ({
+          start: hasField(period, "start") ? Number(period.start) : undefined,
+          end: hasField(period, "end") ? Number(period.end) : undefined,
+        })) || [],
+      informedEntities:
+        alert.informedEntity?.map((informed) => {
+          const tripId = this.scopeOptionalId(informed.trip?.tripId);
+          return {
+            routeId:
+              this.scopeOptionalId(informed.routeId) ||
+              this.scopeOptionalId(informed.trip?.routeId) ||
+              (tripId ? this.data.trips.get(tripId)?.routeId : undefined),
+            stopId: this.scopeOptionalId(informed.stopId),
+            agencyId: informed.agencyId || undefined,
+            tripId,
+            routeType: hasField(informed, "routeType")
+              ? informed.routeType!
+              : undefined,
+            directionId: hasField(informed, "directionId")
+              ? informed.directionId!
+              : hasField(informed.trip, "directionId")
+                ? informed.trip!.directionId!
+                : undefined,
+          };
+        }) || [],
+      ...(includeTranslations && {
+        translations: {
+          headerText: all(alert.headerText),
+          descriptionText: all(alert.descriptionText),
+          url: all(alert.url),
+          ttsHeaderText: all(alert.ttsHeaderText),
+          ttsDescriptionText: all(alert.ttsDescriptionText),
+        },
+      }),
+    };
+  }
+
   getStop(stopId: string): GTFSStop | undefined {
-    return this.stops.get(stopId);
+    return this.data.stops.get(stopId);
+  }
+
+  // A station (location_type 1) with the platforms that belong to it
+  getStation(stationId: string): StationDetails | undefined {
+    const station = this.data.stops.get(stationId);
+    if (!station || station.locationType !== 1) return undefined;
+
+    const platforms = (this.data.stationStops.get(stationId) || [])
+      .map((stopId) => this.data.stops.get(stopId)!)
+      .sort((a, b) =>
+        (a.platformCode || a.stopName).localeCompare(
+          b.platformCode || b.stopName,
+          undefined,
+          { numeric: true },
+        ),
+      );
+
+    return { station, platforms };
   }
 
   getAllRoutes(): GTFSRoute[] {
-    return Array.from(this.routes.values());
+    return Array.from(this.data.routes.values());
   }
 
   getRoute(routeId: string): GTFSRoute | undefined {
-    return this.routes.get(routeId);
+    return this.data.routes.get(routeId);
   }
 
   getRouteWithStops(routeId: string): RouteWithStops | undefined {
-    const route = this.routes.get(routeId);
+    const route = this.data.routes.get(routeId);
     if (!route) return undefined;
 
-    const stopIds = this.routeStops.get(routeId) || [];
-    const stops = stopIds
-      .map((stopId) => this.stops.get(stopId))
-      .filter(Boolean) as GTFSStop[];
+    const toStops = (stopIds: string[]) =>
+      stopIds
+        .map((stopId) => this.data.stops.get(stopId))
+        .filter(Boolean) as GTFSStop[];
+
+    const patterns = this.data.routePatterns.get(routeId) || [];
+    const byDirection = new Map<number | undefined, RoutePattern[]>();
+    for (const pattern of patterns) {
+      if (!byDirection.has(pattern.directionId)) {
+        byDirection.set(pattern.directionId, []);
+      }
+      byDirection.get(pattern.directionId)!.push(pattern);
+    }
+
+    const directions: RouteDirection[] = Array.from(byDirection)
+      .sort(([a], [b]) => (a ?? 2) - (b ?? 2))
+      .map(([directionId, directionPatterns]) => ({
+        directionId,
+        headsign: directionPatterns[0].headsign,
+        stops: toStops(
+          this.mergeStopSequences(
+            directionPatterns.map((pattern) => pattern.stopIds),
+          ),
+        ),
+        patterns: directionPatterns.map((pattern, index) => ({
+          patternId: `${directionId ?? "x"}-${index + 1}`,
+          directionId,
+          headsign: pattern.headsign,
+          tripCount: pattern.tripCount,
+          stops: toStops(pattern.stopIds),
+        })),
+      }));
+
+    // Every stop once, in the order the directions visit them
+    const stops = new Map<string, GTFSStop>();
+    for (const direction of directions) {
+      for (const stop of direction.stops) {
+        stops.set(stop.stopId, stop);
+      }
+    }
 
     return {
       route,
-      stops,
+      stops: Array.from(stops.values()),
+      direction0: directions.find((d) => d.directionId === 0)?.headsign,
+      direction1: directions.find((d) => d.directionId === 1)?.headsign,
+      directions,
     };
   }
 
-  getTripDetails(tripId: string): TripDetails | undefined {
-    const trip = this.trips.get(tripId);
-    if (!trip) return undefined;
+  /**
+   * A trip's static details, with its realtime state while it is running:
+   * each stop's scheduled and predicted time, which stops are skipped or
+   * already passed, and the vehicle running it with the stop it is at or
+   * heading to. Either realtime feed being down only leaves that part out.
+   */
+  async getTripDetails(
+    tripId: string,
+    options: TripDetailsOptions = {},
+  ): Promise<TripDetails | undefined> {
+    const [realtimeTrip, vehicle, alerts] = await Promise.all([
+      this.findRealtimeTrip(tripId),
+      options.vehicles ? this.findTripVehicle(tripId) : undefined,
+      options.alerts ? this.getAttachableAlerts(options.alerts) : undefined,
+    ]);
+
+    const trip = this.data.trips.get(tripId);
+    const details = trip
+      ? this.getStaticTripDetails(trip)
+      : realtimeTrip && this.getExtraTripDetails(realtimeTrip);
+    if (!details) return undefined;
+
+    if (alerts) {
+      const stopIds = new Set(
+        details.stopTimes.flatMap((stopTime) =>
+          Array.from(this.getAlertStopIds(stopTime.stopId)),
+        ),
+      );
+      details.alerts = alerts.filter((alert) =>
+        this.alertAffects(alert, {
+          routeId: details.trip.routeId,
+          stopIds,
+          tripId,
+          directionId: details.trip.directionId,
+        }),
+      );
+    }
+
+    // A vehicle without a trip update still shows how far along it is
+    const runningTrip: RealtimeTrip | undefined =
+      realtimeTrip ??
+      (trip && vehicle
+        ? {
+            tripId,
+            trip,
+            templateTripId: tripId,
+            isExtraService: false,
+            update: { trip: {} },
+          }
+        : undefined);
+    if (!runningTrip) return details;
+
+    const currentStop = vehicle
+      ? this.resolveVehicleStop(vehicle, runningTrip.templateTripId)
+      : undefined;
 
-    const route = this.routes.get(trip.routeId);
-    const stopTimes = this.stopTimes.get(tripId) || [];
+    return {
+      ...details,
+      ...(vehicle && { vehiclePosition: { ...vehicle, currentStop } }),
+      realtimeStopTimes: this.getTripStopStatuses(runningTrip, currentStop),
+      isCancelled: this.isTripCancelled(runningTrip.update),
+    };
+  }
+
+  private getStaticTripDetails(trip: GTFSTrip): TripDetails | undefined {
+    const { tripId } = trip;
+    const route = this.data.routes.get(trip.routeId);
+    const stopTimes = this.data.stopTimes.get(tripId) || [];
 
     if (!route) return undefined;
 
+    const windows = this.data.frequencies.get(tripId);
+    const frequencies: TripFrequency[] | undefined = windows?.map((window) => {
+      const headwayMinutes = Math.round(window.headwaySecs / 60);
+      return {
+        startTime: window.startTime,
+        endTime: window.endTime,
+        headwaySeconds: window.headwaySecs,
+        exactTimes: window.exactTimes,
+        ...(window.exactTimes
+          ? {
+              tripStartTimes:
+                this.getFrequencyTripStarts(window).map(formatGtfsTime),
+            }
+          : { label: `Every ${headwayMinutes} min` }),
+      };
+    });
+
     return {
       trip,
       route,
       stopTimes,
+      ...(frequencies && { frequencies }),
+      isCancelled: false,
+      isExtraService: false,
     };
   }
 
-  private calculateDistance(
-    lat1: number,
-    lon1: number,
-    lat2: number,
-    lon2: number,
-  ): number {
-    const R = 6371000; // Earth's radius in meters
-    const dLat = this.toRadians(lat2 - lat1);
-    const dLon = this.toRadians(lon2 - lon1);
+  // Details of a trip only the realtime feed knows about
+  private getExtraTripDetails(
+    realtimeTrip: RealtimeTrip,
+  ): TripDetails | undefined {
+    return {
+      trip: realtimeTrip.trip,
+      route: this.resolveRoute(realtimeTrip.trip.routeId),
+      stopTimes: this.getRealtimeTripStopTimes(realtimeTrip),
+      isCancelled: this.isTripCancelled(realtimeTrip.update),
+      isExtraService: realtimeTrip.isExtraService,
+    };
+  }
+
+  // The trip update for a trip, if the feed has one. A frequency-based trip
+  // can have several instances running; this is the first one listed.
+  private async findRealtimeTrip(
+    tripId: string,
+  ): Promise<RealtimeTrip | undefined> {
+    let feed: FeedMessage;
+    try {
+      ({ feed } = await this.realtimeFeeds.tripUpdates.get());
+    } catch (error) {
+      console.warn(
+        `Trip updates unavailable, can't look up trip ${tripId}:`,
+        error instanceof Error ? error.message : error,
+      );
+      return undefined;
+    }
+
+    for (const entity of feed.entity) {
+      const realtimeTrip = entity.tripUpdate
+        ? this.describeTrip(entity.tripUpdate)
+        : undefined;
+      if (realtimeTrip?.tripId === tripId) return realtimeTrip;
+    }
+    return undefined;
+  }
+
+  // The vehicle the vehicle positions feed has assigned to a trip
+  private async findTripVehicle(
+    tripId: string,
+  ): Promise<VehiclePosition | undefined> {
+    let feed: FeedMessage;
+    try {
+      ({ feed } = await this.realtimeFeeds.vehiclePositions.get());
+    } catch (error) {
+      console.warn(
+        `Vehicle positions unavailable, can't locate trip ${tripId}:`,
+        error instanceof Error ? error.message : error,
+      );
+      return undefined;
+    }
+
+    for (const entity of feed.entity) {
+      const vehicle = this.toVehiclePosition(entity);
+      if (vehicle?.tripId === tripId) return vehicle;
+    }
+    return undefined;
+  }
+
+  /**
+   * Each stop of a running trip with its scheduled and predicted times. The
+   * current stop is the one the vehicle reports; without a vehicle it is
+   * the first stop still to be served, going by the predicted (or else
+   * scheduled) times, and stops before it count as passed.
+   */
+  private getTripStopStatuses(
+    realtimeTrip: RealtimeTrip,
+    vehicleStop?: VehicleStop,
+  ): TripStopStatus[] {
+    const cancelled = this.isTripCancelled(realtimeTrip.update);
+    const predictions =
+      this.predictTripStopTimes(realtimeTrip) ??
+      this.predictAddedTripStopTimes(realtimeTrip);
+    const currentTime = Date.now() / 1000;
+    const expectedTime = (prediction: TripStopPrediction) =>
+      prediction.time ?? prediction.scheduledTime;
+
+    let currentIndex = vehicleStop
+      ? predictions.findIndex((prediction) =>
+          vehicleStop.stopSequence !== undefined
+            ? prediction.stopSequence === vehicleStop.stopSequence
+            : prediction.stopId === vehicleStop.stopId,
+        )
+      : -1;
+    if (currentIndex === -1 && !cancelled) {
+      currentIndex = predictions.findIndex((prediction) => {
+        const time = expectedTime(prediction);
+        return !prediction.skipped && time !== undefined && time > currentTime;
+      });
+    }
+
+    return predictions.map((prediction, index) => {
+      const time = expectedTime(prediction);
+      const served = !cancelled && !prediction.skipped;
+      return {
+        stopId: prediction.stopId,
+        stopName: this.data.stops.get(prediction.stopId)?.stopName,
+        stopSequence: prediction.stopSequence,
+        scheduledTime: prediction.scheduledTime,
+        predictedTime: served ? prediction.time : undefined,
+        delaySeconds: served ? prediction.delay : undefined,
+        isSkipped: !served,
+        isPassed:
+          currentIndex !== -1
+            ? index < currentIndex
+            : time !== undefined && time <= currentTime,
+        isCurrent: index === currentIndex,
+      };
+    });
+  }
+
+  // Predictions for a trip without stop times in the static data, straight
+  // from the times its updates give
+  private predictAddedTripStopTimes(
+    realtimeTrip: RealtimeTrip,
+  ): TripStopPrediction[] {
+    const predictions: TripStopPrediction[] = [];
+    (realtimeTrip.update.stopTimeUpdate || []).forEach((update, index) => {
+      const stopId = this.scopeOptionalId(update.stopId);
+      if (!stopId) return;
+
+      const skipped = this.isStopSkipped(update);
+      const prediction = skipped ? undefined : this.predictStopTime(update);
+      predictions.push({
+        stopId,
+        stopSequence: hasField(update, "stopSequence")
+          ? update.stopSequence!
+          : index + 1,
+        time: prediction?.time,
+        delay: prediction?.delay,
+        uncertainty: prediction?.uncertainty,
+        skipped,
+        propagated: false,
+      });
+    });
+    return predictions;
+  }
+
+  // Distinct shapes drawn by a route's trips. Trips without a shape_id are
+  // grouped by their stop pattern and drawn through the stop locations.
+  getRouteShapes(
+    routeId: string,
+    toleranceMeters: number = 0,
+  ): ShapeFeatureCollection | undefined {
+    const route = this.data.routes.get(routeId);
+    if (!route) return undefined;
+
+    const groups = new Map<
+      string,
+      { shapeId?: string; tripIds: string[]; headsigns: Set<string> }
+    >();
+
+    for (const trip of this.data.trips.values()) {
+      if (trip.routeId !== routeId) continue;
+
+      const key =
+        trip.shapeId && this.data.shapes.has(trip.shapeId)
+          ? `shape:${trip.shapeId}`
+          : `stops:${(this.data.stopTimes.get(trip.tripId) || [])
+              .map((stopTime) => stopTime.stopId)
+              .join(",")}`;
+
+      if (!groups.has(key)) {
+        groups.set(key, {
+          shapeId: key.startsWith("shape:") ? trip.shapeId : undefined,
+          tripIds: [],
+          headsigns: new Set(),
+        });
+      }
+      const group = groups.get(key)!;
+      group.tripIds.push(trip.tripId);
+      if (trip.tripHeadsign) group.headsigns.add(trip.tripHeadsign);
+    }
+
+    const features: ShapeFeature[] = [];
+    for (const group of groups.values()) {
+      const feature = this.buildShapeFeature(
+        route,
+        group.shapeId,
+        group.tripIds[0],
+        toleranceMeters,
+        {
+          tripCount: group.tripIds.length,
+          headsigns: Array.from(group.headsigns),
+        },
+      );
+      if (feature) features.push(feature);
+    }
+
+    return { type: "FeatureCollection", features };
+  }
+
+  getTripShape(
+    tripId: string,
+    toleranceMeters: number = 0,
+  ): ShapeFeature | undefined {
+    const trip = this.data.trips.get(tripId);
+    if (!trip) return undefined;
+
+    const route = this.data.routes.get(trip.routeId);
+    if (!route) return undefined;
 
-    const a =
-      Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-      Math.cos(this.toRadians(lat1)) *
-        Math.cos(this.toRadians(lat2)) *
-        Math.sin(dLon / 2) *
-        Math.sin(dLon / 2);
+    const shapeId =
+      trip.shapeId && this.data.shapes.has(trip.shapeId)
+        ? trip.shapeId
+        : undefined;
 
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-    return R * c;
+    return this.buildShapeFeature(route, shapeId, tripId, toleranceMeters, {
+      tripId,
+      tripCount: 1,
+      headsigns: trip.tripHeadsign ? [trip.tripHeadsign] : [],
+    });
   }
 
-  private toRadians(degrees: number): number {
-    return degrees * (Math.PI / 180);
+  private buildShapeFeature(
+    route: GTFSRoute,
+    shapeId: string | undefined,
+    tripId: string,
+    toleranceMeters: number,
+    properties: Pick<ShapeProperties, "tripCount" | "headsigns" | "tripId">,
+  ): ShapeFeature | undefined {
+    let coordinates: LonLat[];
+    if (shapeId) {
+      coordinates = this.data.shapes.get(shapeId) || [];
+    } else {
+      coordinates = (this.data.stopTimes.get(tripId) || [])
+        .map((stopTime) => this.data.stops.get(stopTime.stopId))
+        .filter((stop): stop is GTFSStop => stop !== undefined)
+        .map((stop) => [stop.stopLon, stop.stopLat] as LonLat);
+    }
+
+    if (coordinates.length < 2) return undefined;
+
+    const simplified = simplifyLineString(coordinates, toleranceMeters);
+
+    return {
+      type: "Feature",
+      geometry: {
+        type: "LineString",
+        coordinates: simplified,
+      },
+      properties: {
+        routeId: route.routeId,
+        routeShortName: route.shortName,
+        routeColor: `#${route.routeColor}`,
+        routeTextColor: `#${route.routeTextColor}`,
+        shapeId,
+        ...properties,
+        source: shapeId ? "shapes" : "stops",
+        pointCount: simplified.length,
+      },
+    };
   }
 }
@@ -0,0 +1,149 @@
+import fetch from "node-fetch";
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+import JSZip from "jszip";
+
+// Where the static GTFS text files are read from. Loaders only see this
+// interface, so a published zip, a local zip and an unzipped directory all
+// go through the same parsing code.
+export interface GtfsFileSource {
+  // Returns undefined if the feed does not contain the file
+  readFile(fileName: string): Promise<string | undefined>;
+}
+
+export interface StaticFeedDownload {
+  source: GtfsFileSource;
+  contentHash: string;
+  etag?: string;
+  lastModified?: string;
+}
+
+// Validators from the currently loaded feed, used to skip unchanged downloads
+export interface StaticFeedValidators {
+  etag?: string;
+  lastModified?: string;
+}
+
+class ZipGtfsSource implements GtfsFileSource {
+  constructor(private readonly zip: JSZip) {}
+
+  static async fromBuffer(buffer: Buffer): Promise<ZipGtfsSource> {
+    const zip = new JSZip();
+    return new ZipGtfsSource(await zip.loadAsync(buffer));
+  }
+
+  async readFile(fileName: string): Promise<string | undefined> {
+    const file = this.zip.file(fileName);
+    return file ? file.async("string") : undefined;
+  }
+}
+
+class DirectoryGtfsSource implements GtfsFileSource {
+  constructor(private readonly directory: string) {}
+
+  async readFile(fileName: string): Promise<string | undefined> {
+    try {
+      return await fs.readFile(path.join(this.directory, fileName), "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+      throw error;
+    }
+  }
+}
+
+function sha1(data: Buffer | string): string {
+  return createHash("sha1").update(data).digest("hex");
+}
+
+// Local path for file:// URLs and bare paths; undefined for remote URLs
+function resolveLocalPath(location: string): string | undefined {
+  if (location.startsWith("file://")) {
+    return fileURLToPath(location);
+  }
+  if (/^[a-z][a-z0-9+.-]*:\/\//i.test(location)) {
+    return undefined;
+  }
+  return path.resolve(location);
+}
+
+async function downloadZip(
+  url: string,
+  validators: StaticFeedValidators,
+): Promise<StaticFeedDownload | null> {
+  const headers: Record<string, string> = {};
+  if (validators.etag) headers["If-None-Match"] = validators.etag;
+  if (validators.lastModified) {
+    headers["If-Modified-Since"] = validators.lastModified;
+  }
+
+  const response = await fetch(url, { headers });
+  if (response.status === 304) {
+    return null;
+  }
+  if (!response.ok) {
+    throw new Error(
+      `Failed to fetch GTFS zip: ${response.status} ${response.statusText}`,
+    );
+  }
+
+  const buffer = await response.buffer();
+  console.log(`Received zip data of size: ${buffer.length} bytes`);
+
+  return {
+    source: await ZipGtfsSource.fromBuffer(buffer),
+    contentHash: sha1(buffer),
+    etag: response.headers.get("etag") || undefined,
+    lastModified: response.headers.get("last-modified") || undefined,
+  };
+}
+
+async function openLocalFeed(localPath: string): Promise<StaticFeedDownload> {
+  const stats = await fs.stat(localPath);
+
+  if (!stats.isDirectory()) {
+    const buffer = await fs.readFile(localPath);
+    console.log(`Read zip file of size: ${buffer.length} bytes`);
+    return {
+      source: await ZipGtfsSource.fromBuffer(buffer),
+      contentHash: sha1(buffer),
+    };
+  }
+
+  // Fingerprint the directory from file names, sizes and modification times
+  // so an unchanged directory is recognised without parsing it again
+  const fileNames = (await fs.readdir(localPath))
+    .filter((name) => name.endsWith(".txt"))
+    .sort();
+  if (fileNames.length === 0) {
+    throw new Error(`No GTFS .txt files found in ${localPath}`);
+  }
+
+  const fingerprint = await Promise.all(
+    fileNames.map(async (name) => {
+      const fileStats = await fs.stat(path.join(localPath, name));
+      return `${name}:${fileStats.size}:${fileStats.mtimeMs}`;
+    }),
+  );
+
+  return {
+    source: new DirectoryGtfsSource(localPath),
+    contentHash: sha1(fingerprint.join("\n")),
+  };
+}
+
+/**
+ * Open a static GTFS feed from an http(s) URL to a zip, a file:// URL or path
+ * to a local zip, or an unzipped GTFS directory. Returns null if a remote
+ * server reports the feed unchanged since the given validators.
+ */
+export async function openStaticFeed(
+  location: string,
+  validators: StaticFeedValidators = {},
+): Promise<StaticFeedDownload | null> {
+  const localPath = resolveLocalPath(location);
+  return localPath
+    ? openLocalFeed(localPath)
+    : downloadZip(location, validators);
+}
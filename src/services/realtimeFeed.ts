@@ -0,0 +1,147 @@
+import fetch from "node-fetch";
+import GtfsRealtimeBindings from "gtfs-realtime-bindings";
+
+export type FeedMessage = GtfsRealtimeBindings.transit_realtime.FeedMessage;
+export type FeedEntity = GtfsRealtimeBindings.transit_realtime.IFeedEntity;
+export type TripUpdate = GtfsRealtimeBindings.transit_realtime.ITripUpdate;
+export type StopTimeUpdate =
+  GtfsRealtimeBindings.transit_realtime.TripUpdate.IStopTimeUpdate;
+
+export type RealtimeFeedType = "tripUpdates" | "vehiclePositions" | "alerts";
+
+// Decoded messages report unset optional fields as their default (0, ""),
+// so presence has to be checked on the message itself
+export function hasField<T extends object>(
+  message: T | null | undefined,
+  field: keyof T & string,
+): boolean {
+  return !!message && Object.prototype.hasOwnProperty.call(message, field);
+}
+
+// A decoded feed together with when it was produced and fetched
+export interface RealtimeFeedSnapshot {
+  feed: FeedMessage;
+  fetchedAt: number; // Unix ms
+  headerTimestamp?: number; // Unix seconds, from the feed header
+}
+
+// When a feed's data was produced (Unix ms): its header timestamp, or when
+// it was fetched if it has none
+export function updatedAt(snapshot: RealtimeFeedSnapshot): number {
+  return snapshot.headerTimestamp
+    ? snapshot.headerTimestamp * 1000
+    : snapshot.fetchedAt;
+}
+
+// Fetch history of one feed, for health reporting
+export interface RealtimeFeedStats {
+  lastAttemptAt?: number; // Unix ms
+  lastError?: { message: string; at: number };
+  consecutiveErrors: number;
+}
+
+/**
+ * Holds the latest decoded copy of one GTFS-realtime feed. Callers within the
+ * TTL share the cached copy, and callers during a download share that
+ * download, so upstream sees at most one request per TTL however many API
+ * requests arrive.
+ */
+export class RealtimeFeedCache {
+  private snapshot?: RealtimeFeedSnapshot;
+  private inFlight?: Promise<RealtimeFeedSnapshot>;
+  private stats: RealtimeFeedStats = { consecutiveErrors: 0 };
+
+  constructor(
+    private readonly url: string,
+    private readonly ttlMs: number,
+    private readonly label: string,
+    private readonly onUpdate?: (snapshot: RealtimeFeedSnapshot) => void,
+    // Called with each payload as downloaded, before it is decoded
+    private readonly onPayload?: (
+      payload: Uint8Array,
+      fetchedAt: number,
+    ) => void,
+  ) {}
+
+  async get(): Promise<RealtimeFeedSnapshot> {
+    if (this.snapshot && Date.now() - this.snapshot.fetchedAt < this.ttlMs) {
+      return this.snapshot;
+    }
+    return this.refresh();
+  }
+
+  // Fetch a new copy regardless of the TTL, joining any download in progress
+  refresh(): Promise<RealtimeFeedSnapshot> {
+    if (!this.inFlight) {
+      this.inFlight = this.fetchAndRecord().finally(() => {
+        this.inFlight = undefined;
+      });
+    }
+    return this.inFlight;
+  }
+
+  // The last successfully fetched copy, without fetching
+  peek(): RealtimeFeedSnapshot | undefined {
+    return this.snapshot;
+  }
+
+  getStats(): RealtimeFeedStats {
+    return { ...this.stats };
+  }
+
+  private async fetchAndRecord(): Promise<RealtimeFeedSnapshot> {
+    this.stats.lastAttemptAt = Date.now();
+    try {
+      const snapshot = await this.fetchFeed();
+      this.stats.consecutiveErrors = 0;
+      return snapshot;
+    } catch (error) {
+      this.stats.lastError = {
+        message: error instanceof Error ? error.message : String(error),
+        at: Date.now(),
+      };
+      this.stats.consecutiveErrors++;
+      throw error;
+    }
+  }
+
+  private async fetchFeed(): Promise<RealtimeFeedSnapshot> {
+    console.log(`Requesting ${this.label} feed from: ${this.url}`);
+
+    const response = await fetch(this.url);
+    if (!response.ok) {
+      throw new Error(
+        `Failed to fetch ${this.label}: ${response.status} ${response.statusText}`,
+      );
+    }
+
+    const buffer = await response.arrayBuffer();
+    const fetchedAt = Date.now();
+    try {
+      this.onPayload?.(new Uint8Array(buffer), fetchedAt);
+    } catch (error) {
+      console.warn(`Failed to process ${this.label} payload:`, error);
+    }
+
+    const feed = GtfsRealtimeBindings.transit_realtime.FeedMessage.decode(
+      new Uint8Array(buffer),
+    );
+    console.log(
+      `Decoded ${this.label} feed: ${buffer.byteLength} bytes, ${feed.entity.length} entities`,
+    );
+
+    const headerTimestamp = Number(feed.header?.timestamp || 0);
+    this.snapshot = {
+      feed,
+      fetchedAt,
+      headerTimestamp: headerTimestamp > 0 ? headerTimestamp : undefined,
+    };
+
+    try {
+      this.onUpdate?.(this.snapshot);
+    } catch (error) {
+      console.warn(`Failed to process ${this.label} update:`, error);
+    }
+    return this.snapshot;
+  }
+}
@@ -0,0 +1,240 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { RealtimeFeedType } from "./realtimeFeed";
+
+// Bump whenever the index layout changes so that an index written by an
+// older build is ignored instead of misread.
+const INDEX_FORMAT_VERSION = 1;
+const INDEX_FILE = "index.json";
+
+export interface RealtimeRecorderConfig {
+  directory: string;
+  rotateInterval?: number; // ms a segment file is written to; default 1 hour
+  retention?: number; // ms segments are kept after their last record; default 7 days
+}
+
+// One fetched feed payload, as archived
+export interface RecordedFeed {
+  agencyId: string;
+  feed: RealtimeFeedType;
+  fetchedAt: number; // Unix ms
+  payload: Buffer; // The protobuf exactly as downloaded
+}
+
+// One segment file and the fetch times it covers
+export interface RecordingSegment {
+  file: string; // Relative to the recording directory
+  from: number; // Unix ms of the first record
+  to: number; // Unix ms of the last record
+  records: number;
+  bytes: number;
+}
+
+interface RecordingIndex {
+  formatVersion: number;
+  segments: RecordingSegment[];
+}
+
+// How a record is stored: one JSON object per line, payload in base64
+interface RecordLine {
+  agencyId: string;
+  feed: RealtimeFeedType;
+  fetchedAt: number;
+  payload: string;
+}
+
+/**
+ * Archives every realtime feed payload as it is downloaded, so a reported
+ * bad prediction can be replayed later against exactly what upstream sent.
+ * Records are appended to newline-delimited JSON segment files, a new one
+ * every rotateInterval; index.json lists each segment with the fetch times
+ * it covers, so a time window can be read without scanning every file.
+ * Segments older than the retention period are deleted as new ones start.
+ * The index is saved when a segment starts and on flush(), not per record.
+ *
+ * Writes happen in the background, one at a time and in order; a failed
+ * write is logged and never affects the request that fetched the feed.
+ */
+export class RealtimeRecorder {
+  private readonly rotateInterval: number;
+  private readonly retention: number;
+  private index: RecordingIndex = {
+    formatVersion: INDEX_FORMAT_VERSION,
+    segments: [],
+  };
+  private current?: RecordingSegment;
+  private indexDirty = false;
+  private queue: Promise<void>;
+
+  constructor(private readonly config: RealtimeRecorderConfig) {
+    this.rotateInterval = config.rotateInterval ?? 3600000;
+    this.retention = config.retention ?? 7 * 24 * 3600000;
+    this.queue = this.loadIndex().catch((error) =>
+      console.warn("Failed to load realtime recording index:", error),
+    );
+  }
+
+  record(recorded: RecordedFeed): void {
+    this.enqueue(() => this.append(recorded));
+  }
+
+  // Wait for every record so far to be written, and save the index
+  flush(): Promise<void> {
+    this.enqueue(async () => {
+      if (this.indexDirty) await this.saveIndex();
+    });
+    return this.queue;
+  }
+
+  // Segments holding records fetched between from and to (Unix ms)
+  async findSegments(from: number, to: number): Promise<RecordingSegment[]> {
+    await this.queue;
+    return this.index.segments
+      .filter((segment) => segment.to >= from && segment.from <= to)
+      .map((segment) => ({ ...segment }));
+  }
+
+  // Records fetched between from and to (Unix ms), oldest first, optionally
+  // for one agency or feed
+  async readRecords(
+    from: number,
+    to: number,
+    filter: { agencyId?: string; feed?: RealtimeFeedType } = {},
+  ): Promise<RecordedFeed[]> {
+    const records: RecordedFeed[] = [];
+
+    for (const segment of await this.findSegments(from, to)) {
+      let contents: string;
+      try {
+        contents = await fs.readFile(this.pathFor(segment.file), "utf8");
+      } catch (error) {
+        // Deleted by retention since the index was read
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") continue;
+        throw error;
+      }
+
+      for (const line of contents.split("\n")) {
+        if (!line) continue;
+        const record = JSON.parse(line) as RecordLine;
+        if (record.fetchedAt < from || record.fetchedAt > to) continue;
+        if (filter.agencyId && record.agencyId !== filter.agencyId) continue;
+        if (filter.feed && record.feed !== filter.feed) continue;
+
+        records.push({
+          agencyId: record.agencyId,
+          feed: record.feed,
+          fetchedAt: record.fetchedAt,
+          payload: Buffer.from(record.payload, "base64"),
+        });
+      }
+    }
+
+    return records;
+  }
+
+  private enqueue(task: () => Promise<void>): void {
+    this.queue = this.queue.then(task).catch((error) => {
+      console.warn("Failed to record realtime feed:", error);
+    });
+  }
+
+  private async append(recorded: RecordedFeed): Promise<void> {
+    const line: RecordLine = {
+      agencyId: recorded.agencyId,
+      feed: recorded.feed,
+      fetchedAt: recorded.fetchedAt,
+      payload: recorded.payload.toString("base64"),
+    };
+    const data = `${JSON.stringify(line)}\n`;
+
+    if (
+      !this.current ||
+      recorded.fetchedAt - this.current.from >= this.rotateInterval
+    ) {
+      await this.startSegment(recorded.fetchedAt);
+    }
+    const segment = this.current!;
+
+    await fs.appendFile(this.pathFor(segment.file), data);
+    segment.to = Math.max(segment.to, recorded.fetchedAt);
+    segment.records++;
+    segment.bytes += Buffer.byteLength(data);
+    this.indexDirty = true;
+  }
+
+  // Start a new segment file, and drop the ones past the retention period
+  private async startSegment(at: number): Promise<void> {
+    const stamp = new Date(at).toISOString().replace(/[:.]/g, "-");
+    this.current = {
+      file: `realtime-${stamp}.ndjson`,
+      from: at,
+      to: at,
+      records: 0,
+      bytes: 0,
+    };
+    this.index.segments.push(this.current);
+
+    const cutoff = at - this.retention;
+    const expired = this.index.segments.filter(
+      (segment) => segment.to < cutoff,
+    );
+    for (const segment of expired) {
+      await fs.rm(this.pathFor(segment.file), { force: true });
+    }
+    if (expired.length > 0) {
+      console.log(`Deleted ${expired.length} expired realtime recordings`);
+      this.index.segments = this.index.segments.filter(
+        (segment) => !expired.includes(segment),
+      );
+    }
+
+    await fs.mkdir(this.config.directory, { recursive: true });
+    await this.saveIndex();
+  }
+
+  // Pick up the segments earlier runs recorded. New records always start a
+  // new segment rather than appending to an old one.
+  private async loadIndex(): Promise<void> {
+    let json: string;
+    try {
+      json = await fs.readFile(this.pathFor(INDEX_FILE), "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return;
+      throw error;
+    }
+
+    const index = JSON.parse(json) as RecordingIndex;
+    if (index.formatVersion !== INDEX_FORMAT_VERSION) {
+      console.warn(
+        `Ignoring realtime recording index with format version ${index.formatVersion} (expected ${INDEX_FORMAT_VERSION})`,
+      );
+      return;
+    }
+    this.index = index;
+
+    // A run that stopped without flushing saved its last segment as it was
+    // when it started; go by the file for how far it got
+    const last = index.segments[index.segments.length - 1];
+    if (last) {
+      const stats = await fs
+        .stat(this.pathFor(last.file))
+        .catch(() => undefined);
+      if (stats && stats.size !== last.bytes) {
+        last.to = Math.max(last.to, stats.mtimeMs);
+      }
+    }
+  }
+
+  // Written under a temporary name and renamed, like the static snapshot
+  private async saveIndex(): Promise<void> {
+    const indexPath = this.pathFor(INDEX_FILE);
+    const tempPath = `${indexPath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(this.index));
+    await fs.rename(tempPath, indexPath);
+    this.indexDirty = false;
+  }
+
+  private pathFor(file: string): string {
+    return path.join(this.config.directory, file);
+  }
+}
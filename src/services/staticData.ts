@@ -0,0 +1,81 @@
+import {
+  GTFSAgency,
+  GTFSRoute,
+  GTFSTrip,
+  GTFSCalendar,
+  GTFSCalendarDate,
+  GTFSFrequency,
+  GTFSStop,
+  GTFSStopTime,
+} from "../types/gtfs";
+import { LonLat } from "../utils/geo";
+import { SpatialGrid } from "../utils/spatialGrid";
+
+// A distinct stop sequence within a route, with how many trips run it
+export interface RoutePattern {
+  directionId?: number;
+  headsign: string;
+  stopIds: string[];
+  tripCount: number;
+}
+
+// One scheduled departure of a trip from a stop
+export interface StopDeparture {
+  timeOfDay: number; // Seconds into the service day
+  tripId: string;
+  stopId: string;
+  stopSequence: number;
+  windowIndex?: number; // Index into the trip's frequencies, if headway-based
+}
+
+// Everything parsed from one static GTFS feed. A reload builds a new instance
+// and swaps it in whole, so requests never see a half-loaded feed.
+export interface StaticGtfsData {
+  agencies: Map<string, GTFSAgency>; // agency.txt agency_id -> agency
+  timeZone: string; // IANA timezone of the feed's schedule times
+  routes: Map<string, GTFSRoute>;
+  trips: Map<string, GTFSTrip>;
+  stops: Map<string, GTFSStop>;
+  stationStops: Map<string, string[]>; // stationId -> child stopIds
+  stopTimes: Map<string, GTFSStopTime[]>; // tripId -> stopTimes
+  routePatterns: Map<string, RoutePattern[]>; // routeId -> patterns, most trips first
+  shapes: Map<string, LonLat[]>; // shapeId -> points in sequence order
+  frequencies: Map<string, GTFSFrequency[]>; // tripId -> headway windows
+  calendars: Map<string, GTFSCalendar>; // serviceId -> calendar
+  calendarDates: Map<string, GTFSCalendarDate[]>; // date -> exceptions
+  activeServices: Map<string, Set<string>>; // date -> serviceIds (memoized, least recently used first)
+  stopSchedule: Map<string, StopDeparture[]>; // stopId -> departures by timeOfDay (derived)
+  stopGrid: SpatialGrid<GTFSStop>; // Stops by location (derived)
+  feedVersion: string;
+  contentHash: string;
+  etag?: string;
+  lastModified?: string;
+  loadedAt: number;
+}
+
+export function createStopGrid(): SpatialGrid<GTFSStop> {
+  return new SpatialGrid((stop) => ({ lat: stop.stopLat, lon: stop.stopLon }));
+}
+
+export function createEmptyStaticData(): StaticGtfsData {
+  return {
+    agencies: new Map(),
+    timeZone: "",
+    routes: new Map(),
+    trips: new Map(),
+    stops: new Map(),
+    stationStops: new Map(),
+    stopTimes: new Map(),
+    routePatterns: new Map(),
+    shapes: new Map(),
+    frequencies: new Map(),
+    calendars: new Map(),
+    calendarDates: new Map(),
+    activeServices: new Map(),
+    stopSchedule: new Map(),
+    stopGrid: createStopGrid(),
+    feedVersion: "",
+    contentHash: "",
+    loadedAt: 0,
+  };
+}
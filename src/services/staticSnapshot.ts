@@ -0,0 +1,182 @@
+import { createGunzip, createGzip } from "zlib";
+import { promises as fs, createWriteStream } from "fs";
+import path from "path";
+import readline from "readline";
+import { Readable, pipeline } from "stream";
+import { pipeline as pipelineAsync } from "stream/promises";
+import { StaticGtfsData, createEmptyStaticData } from "./staticData";
+
+// Bump whenever the shape of StaticGtfsData changes so that snapshots written
+// by an older build are ignored instead of misread.
+const SNAPSHOT_FORMAT_VERSION = 12;
+
+// The tables a snapshot stores. Memoized lookups are rebuilt on demand and
+// the stop indexes after loading, which is cheaper than storing them.
+const SNAPSHOT_TABLES = [
+  "agencies",
+  "routes",
+  "trips",
+  "stops",
+  "stationStops",
+  "stopTimes",
+  "routePatterns",
+  "shapes",
+  "frequencies",
+  "calendars",
+  "calendarDates",
+] as const;
+
+type SnapshotTable = (typeof SNAPSHOT_TABLES)[number];
+
+const snapshotTableNames = new Set<string>(SNAPSHOT_TABLES);
+
+type SnapshotFields = Pick<
+  StaticGtfsData,
+  | "timeZone"
+  | "feedVersion"
+  | "contentHash"
+  | "etag"
+  | "lastModified"
+  | "loadedAt"
+>;
+
+// The first line of a snapshot; every line after it is one table entry
+interface SnapshotHeader {
+  formatVersion: number;
+  source: string;
+  createdAt: string;
+  fields: SnapshotFields;
+}
+
+type SnapshotEntry = [SnapshotTable, string, unknown];
+
+// Maps and Sets don't survive JSON.stringify, so tag them on the way out and
+// rebuild them on the way back in
+function replacer(key: string, value: unknown): unknown {
+  if (value instanceof Map) {
+    return { $map: Array.from(value.entries()) };
+  }
+  if (value instanceof Set) {
+    return { $set: Array.from(value.values()) };
+  }
+  return value;
+}
+
+function reviver(key: string, value: unknown): unknown {
+  if (value && typeof value === "object") {
+    if ("$map" in value && Array.isArray(value.$map)) {
+      return new Map(value.$map);
+    }
+    if ("$set" in value && Array.isArray(value.$set)) {
+      return new Set(value.$set);
+    }
+  }
+  return value;
+}
+
+// One JSON document per line, so no single string has to hold the whole
+// feed and the gzip stream can pull lines as it has room for them
+function* snapshotLines(
+  header: SnapshotHeader,
+  data: StaticGtfsData,
+): Generator<string> {
+  yield `${JSON.stringify(header)}\n`;
+  for (const table of SNAPSHOT_TABLES) {
+    for (const [key, value] of data[table]) {
+      const entry: SnapshotEntry = [table, key, value];
+      yield `${JSON.stringify(entry, replacer)}\n`;
+    }
+  }
+}
+
+/**
+ * Write parsed static data to a gzipped snapshot, streamed a table entry at a
+ * time. The file is written under a temporary name and renamed so a crash
+ * never leaves a partial file.
+ */
+export async function saveStaticSnapshot(
+  filePath: string,
+  source: string,
+  data: StaticGtfsData,
+): Promise<void> {
+  const header: SnapshotHeader = {
+    formatVersion: SNAPSHOT_FORMAT_VERSION,
+    source,
+    createdAt: new Date().toISOString(),
+    fields: {
+      timeZone: data.timeZone,
+      feedVersion: data.feedVersion,
+      contentHash: data.contentHash,
+      etag: data.etag,
+      lastModified: data.lastModified,
+      loadedAt: data.loadedAt,
+    },
+  };
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await pipelineAsync(
+    Readable.from(snapshotLines(header, data)),
+    createGzip(),
+    createWriteStream(tempPath),
+  );
+  await fs.rename(tempPath, filePath);
+}
+
+/**
+ * Read a snapshot written by saveStaticSnapshot. Returns undefined if there is
+ * no snapshot, or it was written by another format version or for another
+ * feed source.
+ */
+export async function loadStaticSnapshot(
+  filePath: string,
+  source: string,
+): Promise<StaticGtfsData | undefined> {
+  let file: fs.FileHandle;
+  try {
+    file = await fs.open(filePath, "r");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+    throw error;
+  }
+
+  // pipeline passes a read or decompression error on to the line reader
+  const input = pipeline(file.createReadStream(), createGunzip(), () => {});
+  const lines = readline.createInterface({ input, crlfDelay: Infinity });
+
+  try {
+    let data: StaticGtfsData | undefined;
+
+    for await (const line of lines) {
+      if (!line) continue;
+
+      if (!data) {
+        const header = JSON.parse(line) as SnapshotHeader;
+        if (header.formatVersion !== SNAPSHOT_FORMAT_VERSION) {
+          console.warn(
+            `Ignoring GTFS snapshot with format version ${header.formatVersion} (expected ${SNAPSHOT_FORMAT_VERSION})`,
+          );
+          return undefined;
+        }
+        if (header.source !== source) {
+          console.warn(`Ignoring GTFS snapshot for a different source`);
+          return undefined;
+        }
+        data = { ...createEmptyStaticData(), ...header.fields };
+        continue;
+      }
+
+      const [table, key, value] = JSON.parse(line, reviver) as SnapshotEntry;
+      if (!snapshotTableNames.has(table)) {
+        throw new Error(`Unknown table "${table}" in GTFS snapshot`);
+      }
+      (data[table] as Map<string, unknown>).set(key, value);
+    }
+
+    if (!data) throw new Error("GTFS snapshot is empty");
+    return data;
+  } finally {
+    lines.close();
+    input.destroy();
+  }
+}
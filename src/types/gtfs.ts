@@ -1,3 +1,17 @@
+// Where an arrival time comes from: a realtime prediction, the static
+// schedule, or the schedule of a trip the realtime feed has cancelled
+export type ArrivalSource = "realtime" | "scheduled" | "cancelled";
+
+export interface ArrivalOptions {
+  includeCancelled?: boolean; // List cancelled trips and skipped stops (default true)
+  alerts?: AlertOptions; // Attach the alerts affecting each arrival
+}
+
+export interface TripDetailsOptions {
+  alerts?: AlertOptions; // Attach the alerts affecting the trip
+  vehicles?: boolean; // Look up the vehicle running the trip
+}
+
 export interface BusArrival {
   stopId: string;
   routeId: string;
@@ -11,10 +25,19 @@ export interface BusArrival {
     headsign: string;
     minutesUntilArrival: number;
     delaySeconds: number;
-    isRealTime: boolean;
+    isRealTime: boolean; // The time is a realtime prediction
+    isCancelled: boolean; // The trip has been cancelled
+    isSkipped: boolean; // The trip no longer stops here
+    isExtraService: boolean; // Added, duplicated or new trip not in the schedule
     uncertainty?: number;
+    platformStopId?: string; // Platform served, when listing a whole station
+    tripId?: string;
+    source?: ArrivalSource;
+    scheduledTime?: number; // Unix timestamp from the static schedule, if known
+    alertIds?: string[]; // Alerts (from alerts) affecting this trip at this stop
     status: string; // "Arriving", "Due", "5 min", "Delayed", etc.
   }>;
+  alerts?: ServiceAlert[]; // Alerts affecting any of the arrivals listed
 }
 
 export interface BusDeparture {
@@ -30,34 +53,76 @@ export interface BusDeparture {
     headsign: string;
     minutesUntilDeparture: number;
     isScheduled: boolean;
+    headwayMinutes?: number; // Set for frequency-based service without exact times
+    platformStopId?: string; // Platform served, when listing a whole station
     status: string; // "Departing", "Due", "5 min", etc.
   }>;
 }
 
+export interface GTFSAgency {
+  agencyId: string; // agency_id from agency.txt, may be blank for one agency
+  agencyName: string;
+  agencyUrl?: string;
+  agencyTimezone: string;
+}
+
 export interface GTFSRoute {
   routeId: string;
+  agencyId?: string; // Configured feed the route belongs to
   shortName: string;
   longName: string;
   routeColor: string;
   routeTextColor: string;
+  routeType?: number; // 3 = bus; see route_type in the GTFS reference
 }
 
 export interface GTFSTrip {
   tripId: string;
   routeId: string;
+  serviceId: string;
   tripHeadsign: string;
+  directionId?: number; // 0 or 1, from direction_id
+  shapeId?: string;
+}
+
+export interface GTFSFrequency {
+  tripId: string;
+  startTime: string; // HH:MM:SS
+  endTime: string; // HH:MM:SS
+  headwaySecs: number;
+  exactTimes: boolean; // false = headway-based, departure times approximate
+}
+
+export interface GTFSCalendar {
+  serviceId: string;
+  days: boolean[]; // Indexed like Date.getDay(): 0 = Sunday
+  startDate: string; // YYYYMMDD
+  endDate: string; // YYYYMMDD
+}
+
+export interface GTFSCalendarDate {
+  serviceId: string;
+  date: string; // YYYYMMDD
+  exceptionType: number; // 1 = service added, 2 = service removed
 }
 
 export interface GTFSStop {
   stopId: string;
+  agencyId?: string; // Configured feed the stop belongs to
   stopName: string;
   stopDesc?: string;
   stopLat: number;
   stopLon: number;
   stopCode?: string;
-  locationType?: number;
+  locationType?: number; // 0 = stop/platform, 1 = station, 2 = entrance/exit
   parentStation?: string;
-  wheelchairBoarding?: number;
+  wheelchairBoarding?: number; // 0 = unknown, 1 = accessible, 2 = not accessible
+  platformCode?: string; // e.g. "Bay 3"
+}
+
+export interface StationDetails {
+  station: GTFSStop;
+  platforms: GTFSStop[];
 }
 
 export interface GTFSStopTime {
@@ -69,6 +134,7 @@ export interface GTFSStopTime {
   stopHeadsign?: string;
   pickupType?: number;
   dropOffType?: number;
+  interpolated?: boolean; // Blank in the feed; estimated from the timed stops either side
 }
 
 export interface VehiclePosition {
@@ -82,23 +148,111 @@ export interface VehiclePosition {
   timestamp: number;
   occupancyStatus?: string;
   congestionLevel?: string;
+  stopId?: string; // Stop the vehicle is at or heading to
+  currentStopSequence?: number;
+  currentStatus?: string; // "INCOMING_AT", "STOPPED_AT" or "IN_TRANSIT_TO"
+  // Added when vehicle details are requested
+  routeShortName?: string;
+  routeColor?: string;
+  routeTextColor?: string;
+  tripHeadsign?: string;
+  currentStop?: VehicleStop;
+  delay?: number; // Seconds, from the trip's realtime predictions
+}
+
+// The stop a vehicle is at (STOPPED_AT) or heading to
+export interface VehicleStop {
+  stopId: string;
+  stopName?: string;
+  stopSequence?: number;
+  status: string;
+}
+
+export interface VehicleOptions {
+  details?: boolean; // Add route styling, headsign, current stop and delay
 }
 
 export interface ServiceAlert {
   alertId: string;
   headerText: string;
   descriptionText: string;
-  severity?: string;
-  effect?: string;
+  language?: string; // Language of the header text picked, if the feed tags it
+  url?: string;
+  ttsHeaderText?: string; // Text-to-speech versions, when the feed has them
+  ttsDescriptionText?: string;
+  cause: string; // Defaults to UNKNOWN_CAUSE
+  effect: string; // Defaults to UNKNOWN_EFFECT
+  severity: string; // Defaults to UNKNOWN_SEVERITY
   activePeriods: Array<{
     start?: number;
     end?: number;
   }>;
-  informedEntities: Array<{
-    routeId?: string;
-    stopId?: string;
-    agencyId?: string;
-  }>;
+  informedEntities: AlertInformedEntity[];
+  translations?: AlertTranslations; // Every language, when requested
+}
+
+// What an alert applies to. Every field given must match, so a route and a
+// stop together mean that route at that stop; an entity with only an
+// agencyId applies to the whole agency.
+export interface AlertInformedEntity {
+  routeId?: string; // For a trip, its route if known
+  stopId?: string;
+  agencyId?: string;
+  tripId?: string;
+  routeType?: number;
+  directionId?: number;
+}
+
+// Which alerts to list by their active periods, relative to a point in time
+export type AlertPeriodFilter = "active" | "upcoming" | "all";
+
+export interface AlertText {
+  text: string;
+  language?: string; // Absent for text in the feed's default language
+}
+
+export interface AlertTranslations {
+  headerText: AlertText[];
+  descriptionText: AlertText[];
+  url: AlertText[];
+  ttsHeaderText: AlertText[];
+  ttsDescriptionText: AlertText[];
+}
+
+export interface AlertOptions {
+  languages?: string[]; // Preferred languages for alert text, most preferred first
+  includeTranslations?: boolean;
+  period?: AlertPeriodFilter; // Default all
+  at?: number; // Unix timestamp the period is relative to; default now
+}
+
+export interface TripDelayChangedEvent {
+  agencyId: string;
+  tripId: string;
+  routeId?: string;
+  previousDelay?: number; // Seconds; absent for a trip not seen before
+  delay: number; // Seconds
+  timestamp: number; // Unix timestamp of the update
+}
+
+export interface VehicleMovedEvent {
+  agencyId: string;
+  vehicle: VehiclePosition;
+  previous?: VehiclePosition; // Absent for a vehicle not seen before
+}
+
+export interface AlertChangedEvent {
+  agencyId: string;
+  alert: ServiceAlert;
+}
+
+// Events emitted as new realtime feeds arrive, whether fetched by the
+// background poller or by an API request
+export interface RealtimeEventMap {
+  tripDelayChanged: TripDelayChangedEvent;
+  vehicleMoved: VehicleMovedEvent;
+  alertAdded: AlertChangedEvent;
+  alertRemoved: AlertChangedEvent;
 }
 
 export interface NearbyStop {
@@ -106,18 +260,130 @@ export interface NearbyStop {
   distance: number; // in meters
 }
 
+// One distinct stop sequence run by a route's trips
+export interface RouteStopPattern {
+  patternId: string;
+  directionId?: number;
+  headsign: string;
+  tripCount: number;
+  stops: GTFSStop[]; // In riding order
+}
+
+export interface RouteDirection {
+  directionId?: number; // Absent when the feed has no direction_id
+  headsign: string; // Headsign of the most common pattern
+  stops: GTFSStop[]; // Riding order, merged across patterns
+  patterns: RouteStopPattern[]; // Most trips first
+}
+
 export interface RouteWithStops {
   route: GTFSRoute;
-  stops: GTFSStop[];
-  direction0?: string;
-  direction1?: string;
+  stops: GTFSStop[]; // Every stop served, in direction order
+  direction0?: string; // Headsign for direction_id 0
+  direction1?: string; // Headsign for direction_id 1
+  directions: RouteDirection[];
+}
+
+export interface ShapeProperties {
+  routeId: string;
+  routeShortName: string;
+  routeColor: string; // CSS hex, e.g. "#FF0000"
+  routeTextColor: string;
+  shapeId?: string;
+  tripId?: string; // Set for a single trip's shape
+  tripCount: number;
+  headsigns: string[];
+  source: "shapes" | "stops"; // "stops" when built from stop locations
+  pointCount: number;
+}
+
+export interface ShapeFeature {
+  type: "Feature";
+  geometry: {
+    type: "LineString";
+    coordinates: Array<[number, number]>; // [lon, lat]
+  };
+  properties: ShapeProperties;
+}
+
+export interface ShapeFeatureCollection {
+  type: "FeatureCollection";
+  features: ShapeFeature[];
+}
+
+export interface TripFrequency {
+  startTime: string;
+  endTime: string;
+  headwaySeconds: number;
+  exactTimes: boolean;
+  tripStartTimes?: string[]; // Exact times: each trip's first departure
+  label?: string; // Headway-based: e.g. "Every 10 min"
 }
 
 export interface TripDetails {
   trip: GTFSTrip;
   route: GTFSRoute;
-  stopTimes: GTFSStopTime[];
-  vehiclePosition?: VehiclePosition;
+  stopTimes: GTFSStopTime[]; // For frequency trips, the first trip's times; for extra service, from the realtime feed
+  frequencies?: TripFrequency[];
+  vehiclePosition?: VehiclePosition; // The vehicle running the trip, with its currentStop
+  realtimeStopTimes?: TripStopStatus[]; // Set while the trip has realtime data
+  alerts?: ServiceAlert[]; // Alerts affecting the trip, its route or its stops
+  isCancelled: boolean;
+  isExtraService: boolean; // Only known from the realtime feed
+}
+
+// One stop of a trip as it is running, from the realtime feeds
+export interface TripStopStatus {
+  stopId: string;
+  stopName?: string;
+  stopSequence: number;
+  scheduledTime?: number; // Unix timestamp; unknown for frequency trips without a start time
+  predictedTime?: number; // Unix timestamp, if there is a realtime prediction
+  delaySeconds?: number;
+  isSkipped: boolean; // The trip no longer stops here (or is cancelled)
+  isPassed: boolean;
+  isCurrent: boolean; // The stop the vehicle is at or heading to
+}
+
+export interface AgencyInfo {
+  agencyId: string;
+  namespaced: boolean; // IDs are prefixed with "<agencyId>:"
+  timeZone: string; // Timezone schedule times are resolved in
+  routeCount: number;
+  stopCount: number;
+  staticData: StaticDataStatus;
+}
+
+export interface RealtimeFeedInfo {
+  lastUpdated: string; // Feed header timestamp, or fetch time if absent
+  fetchedAt: string;
+  feedAge: number; // Seconds since lastUpdated
+  stale: boolean; // feedAge is past the staleness threshold
+}
+
+export interface RealtimeFeedHealth {
+  // "stale" once the newest data, as of the last fetch, is past the
+  // staleness threshold; "unused" until something needs the feed
+  status: "ok" | "stale" | "unused";
+  lastSuccessAt?: string;
+  lastAttemptAt?: string;
+  headerTimestamp?: string;
+  feedAge?: number; // Seconds
+  entityCount?: number;
+  consecutiveErrors: number;
+  lastError?: string;
+  lastErrorAt?: string;
+}
+
+export interface StaticDataStatus {
+  feedVersion?: string;
+  loadedAt?: string;
+  loadedFrom?: "upstream" | "snapshot";
+  lastCheckedAt?: string;
+  lastError?: string;
+  lastErrorAt?: string;
+  refreshInterval: number; // ms, 0 = disabled
+  refreshing: boolean;
 }
 
 // API Response types
@@ -1,5 +1,11 @@
 import { Request, Response } from "express";
-import { ApiResponse, PaginatedResponse } from "../types/gtfs";
+import { BoundingBox } from "./spatialGrid";
+import {
+  AlertPeriodFilter,
+  ApiResponse,
+  PaginatedResponse,
+} from "../types/gtfs";
+import { isValidServiceDate } from "./gtfsTime";
 
 export function createSuccessResponse<T>(data: T): ApiResponse<T> {
   return {
@@ -112,3 +118,148 @@ export function validatePositiveNumber(
   const parsed = parseFloat(value);
   return isNaN(parsed) || parsed <= 0 ? defaultValue : parsed;
 }
+
+// Parse a GeoJSON-ordered "minLon,minLat,maxLon,maxLat" bounding box
+export function validateBoundingBox(
+  value: string | undefined,
+): BoundingBox | null {
+  if (!value) {
+    return null;
+  }
+
+  const parts = value.split(",").map((part) => parseFloat(part));
+  if (parts.length !== 4 || parts.some(isNaN)) {
+    return null;
+  }
+
+  const [minLon, minLat, maxLon, maxLat] = parts;
+  if (
+    minLat < -90 ||
+    maxLat > 90 ||
+    minLon < -180 ||
+    maxLon > 180 ||
+    minLat > maxLat ||
+    minLon > maxLon
+  ) {
+    return null;
+  }
+
+  return { minLat, minLon, maxLat, maxLon };
+}
+
+// Accepts true/false (or 1/0); undefined if absent, null if invalid
+export function validateBoolean(
+  value: string | undefined,
+): boolean | null | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  if (value === "true" || value === "1") return true;
+  if (value === "false" || value === "0") return false;
+  return null;
+}
+
+// A Unix timestamp in seconds or an ISO 8601 date; undefined if absent, null
+// if invalid
+export function validateTimestamp(
+  value: string | undefined,
+): number | null | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const time = /^\d+$/.test(value)
+    ? parseInt(value, 10)
+    : Math.floor(Date.parse(value) / 1000);
+  return isNaN(time) ? null : time;
+}
+
+export function validateAlertPeriod(
+  value: string | undefined,
+): AlertPeriodFilter | null {
+  if (!value) {
+    return "active";
+  }
+
+  return value === "active" || value === "upcoming" || value === "all"
+    ? value
+    : null;
+}
+
+// Preferred languages, most preferred first: the lang parameter (a
+// comma-separated list) if given, otherwise the Accept-Language header
+export function getPreferredLanguages(req: Request): string[] {
+  const { lang } = req.query;
+  if (typeof lang === "string" && lang.trim()) {
+    return lang
+      .split(",")
+      .map((tag) => tag.trim())
+      .filter(Boolean);
+  }
+
+  return req.acceptsLanguages().filter((tag) => tag !== "*");
+}
+
+export function validateServiceDate(
+  value: string | undefined,
+): string | null | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  return isValidServiceDate(value) ? value : null;
+}
+
+// "live" lists realtime predictions only; "blended" starts from the schedule
+// and overlays predictions where there are any
+export type ArrivalsMode = "live" | "blended";
+
+export function validateArrivalsMode(
+  value: string | undefined,
+): ArrivalsMode | null {
+  if (!value) {
+    return "live";
+  }
+
+  return value === "live" || value === "blended" ? value : null;
+}
+
+export interface ArrivalsParams {
+  mode: ArrivalsMode;
+  includeCancelled?: boolean;
+}
+
+// The mode and includeCancelled parameters the arrivals endpoints share.
+// Responds with a 400 and returns undefined if either is invalid.
+export function parseArrivalsParams(
+  req: Request,
+  res: Response,
+): ArrivalsParams | undefined {
+  const mode = validateArrivalsMode(req.query.mode as string);
+  if (!mode) {
+    res
+      .status(400)
+      .json(
+        createErrorResponse("Invalid mode parameter", "Use live or blended"),
+      );
+    return undefined;
+  }
+
+  const includeCancelled = validateBoolean(
+    req.query.includeCancelled as string,
+  );
+  if (includeCancelled === null) {
+    res
+      .status(400)
+      .json(
+        createErrorResponse(
+          "Invalid includeCancelled parameter",
+          "Use true or false",
+        ),
+      );
+    return undefined;
+  }
+
+  return { mode, includeCancelled };
+}
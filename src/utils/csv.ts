@@ -0,0 +1,200 @@
+// RFC 4180 CSV parsing for static GTFS files. Columns are resolved by header
+// name, so feeds are free to reorder or add columns.
+
+export type CsvRecord = Record<string, string>;
+
+export interface CsvParseError {
+  line: number;
+  message: string;
+}
+
+export interface CsvParseResult {
+  header: string[];
+  rowCount: number;
+  errorCount: number;
+  errors: CsvParseError[]; // First MAX_REPORTED_ERRORS errors only
+}
+
+export interface CsvParseOptions {
+  requiredColumns?: string[];
+}
+
+const MAX_REPORTED_ERRORS = 50;
+
+interface RawRow {
+  fields: string[];
+  line: number;
+  error?: string;
+}
+
+// Split text into rows of raw fields, honouring quoted fields that contain
+// commas, doubled quotes or line breaks. Accepts \n, \r\n and bare \r endings.
+function* readRows(text: string): Generator<RawRow> {
+  const length = text.length;
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+  let line = 1;
+
+  while (i < length) {
+    const startLine = line;
+    const fields: string[] = [];
+    let error: string | undefined;
+    let endOfRow = false;
+
+    while (!endOfRow) {
+      let value = "";
+
+      if (text[i] === '"') {
+        // Quoted field
+        i++;
+        let closed = false;
+        while (i < length) {
+          const quote = text.indexOf('"', i);
+          if (quote === -1) {
+            value += text.slice(i);
+            line += countLineBreaks(text, i, length);
+            i = length;
+            break;
+          }
+          value += text.slice(i, quote);
+          line += countLineBreaks(text, i, quote);
+          if (text[quote + 1] === '"') {
+            value += '"';
+            i = quote + 2;
+          } else {
+            i = quote + 1;
+            closed = true;
+            break;
+          }
+        }
+
+        if (!closed) {
+          error = error || "Unterminated quoted field";
+        }
+
+        // Anything between the closing quote and the next delimiter is malformed
+        const end = scanUnquoted(text, i);
+        if (end > i) {
+          error = error || "Unexpected characters after closing quote";
+          value += text.slice(i, end);
+          i = end;
+        }
+      } else {
+        const end = scanUnquoted(text, i);
+        value = text.slice(i, end);
+        i = end;
+      }
+
+      fields.push(value);
+
+      if (i >= length) {
+        endOfRow = true;
+      } else if (text[i] === ",") {
+        i++;
+      } else {
+        // Line break: consume \r\n, \n or \r
+        if (text[i] === "\r" && text[i + 1] === "\n") {
+          i += 2;
+        } else {
+          i++;
+        }
+        line++;
+        endOfRow = true;
+      }
+    }
+
+    yield { fields, line: startLine, error };
+  }
+}
+
+// Index of the next delimiter or line break at or after `start`
+function scanUnquoted(text: string, start: number): number {
+  let end = start;
+  while (end < text.length) {
+    const c = text[end];
+    if (c === "," || c === "\n" || c === "\r") break;
+    end++;
+  }
+  return end;
+}
+
+function countLineBreaks(text: string, start: number, end: number): number {
+  let count = 0;
+  for (let i = start; i < end; i++) {
+    const c = text[i];
+    if (c === "\n" || (c === "\r" && text[i + 1] !== "\n")) {
+      count++;
+    }
+  }
+  return count;
+}
+
+function isBlankRow(fields: string[]): boolean {
+  return fields.every((field) => field.trim() === "");
+}
+
+/**
+ * Parse CSV text, invoking `onRecord` for every well-formed data row with the
+ * values keyed by (trimmed) header name. Malformed rows are skipped and
+ * reported in the result; a missing required column throws.
+ */
+export function parseCsv(
+  text: string,
+  onRecord: (record: CsvRecord, line: number) => void,
+  options: CsvParseOptions = {},
+): CsvParseResult {
+  const result: CsvParseResult = {
+    header: [],
+    rowCount: 0,
+    errorCount: 0,
+    errors: [],
+  };
+
+  const reportError = (line: number, message: string) => {
+    result.errorCount++;
+    if (result.errors.length < MAX_REPORTED_ERRORS) {
+      result.errors.push({ line, message });
+    }
+  };
+
+  let header: string[] | undefined;
+
+  for (const row of readRows(text)) {
+    if (isBlankRow(row.fields)) continue;
+
+    if (!header) {
+      header = row.fields.map((name) => name.trim());
+      result.header = header;
+
+      const missing = (options.requiredColumns || []).filter(
+        (column) => !header!.includes(column),
+      );
+      if (missing.length > 0) {
+        throw new Error(`Missing required columns: ${missing.join(", ")}`);
+      }
+      continue;
+    }
+
+    if (row.error) {
+      reportError(row.line, row.error);
+      continue;
+    }
+
+    if (row.fields.length !== header.length) {
+      reportError(
+        row.line,
+        `Expected ${header.length} fields but found ${row.fields.length}`,
+      );
+      continue;
+    }
+
+    const record: CsvRecord = {};
+    for (let i = 0; i < header.length; i++) {
+      record[header[i]] = row.fields[i].trim();
+    }
+
+    result.rowCount++;
+    onRecord(record, row.line);
+  }
+
+  return result;
+}
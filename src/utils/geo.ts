@@ -0,0 +1,97 @@
+// Geometry helpers for shapes. Coordinates are GeoJSON-ordered [lon, lat].
+
+export type LonLat = [number, number];
+
+export const METERS_PER_DEGREE_LAT = 111320;
+const EARTH_RADIUS_METERS = 6371000;
+
+function toRadians(degrees: number): number {
+  return degrees * (Math.PI / 180);
+}
+
+// Great-circle distance in meters between two points
+export function haversineDistance(
+  lat1: number,
+  lon1: number,
+  lat2: number,
+  lon2: number,
+): number {
+  const dLat = toRadians(lat2 - lat1);
+  const dLon = toRadians(lon2 - lon1);
+
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(toRadians(lat1)) *
+      Math.cos(toRadians(lat2)) *
+      Math.sin(dLon / 2) *
+      Math.sin(dLon / 2);
+
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+  return EARTH_RADIUS_METERS * c;
+}
+
+// Distance in meters from point p to segment a-b, using a local
+// equirectangular projection (accurate enough at city scale)
+function distanceToSegment(p: LonLat, a: LonLat, b: LonLat): number {
+  const metersPerDegreeLon =
+    METERS_PER_DEGREE_LAT * Math.cos((p[1] * Math.PI) / 180);
+
+  const px = (p[0] - a[0]) * metersPerDegreeLon;
+  const py = (p[1] - a[1]) * METERS_PER_DEGREE_LAT;
+  const bx = (b[0] - a[0]) * metersPerDegreeLon;
+  const by = (b[1] - a[1]) * METERS_PER_DEGREE_LAT;
+
+  const lengthSquared = bx * bx + by * by;
+  const t =
+    lengthSquared === 0
+      ? 0
+      : Math.max(0, Math.min(1, (px * bx + py * by) / lengthSquared));
+
+  const dx = px - t * bx;
+  const dy = py - t * by;
+  return Math.sqrt(dx * dx + dy * dy);
+}
+
+/**
+ * Douglas-Peucker simplification: drops points that lie within
+ * `toleranceMeters` of the simplified line. Endpoints are always kept.
+ */
+export function simplifyLineString(
+  coordinates: LonLat[],
+  toleranceMeters: number,
+): LonLat[] {
+  if (coordinates.length <= 2 || toleranceMeters <= 0) {
+    return coordinates;
+  }
+
+  const keep = new Array<boolean>(coordinates.length).fill(false);
+  keep[0] = true;
+  keep[coordinates.length - 1] = true;
+
+  // Iterative to avoid deep recursion on long shapes
+  const stack: Array<[number, number]> = [[0, coordinates.length - 1]];
+  while (stack.length > 0) {
+    const [start, end] = stack.pop()!;
+    let maxDistance = 0;
+    let maxIndex = -1;
+
+    for (let i = start + 1; i < end; i++) {
+      const distance = distanceToSegment(
+        coordinates[i],
+        coordinates[start],
+        coordinates[end],
+      );
+      if (distance > maxDistance) {
+        maxDistance = distance;
+        maxIndex = i;
+      }
+    }
+
+    if (maxIndex !== -1 && maxDistance > toleranceMeters) {
+      keep[maxIndex] = true;
+      stack.push([start, maxIndex], [maxIndex, end]);
+    }
+  }
+
+  return coordinates.filter((_, index) => keep[index]);
+}
@@ -0,0 +1,138 @@
+// Helpers for GTFS schedule times (HH:MM:SS, may exceed 24:00:00) and
+// service dates (YYYYMMDD). Service dates are plain calendar dates, and are
+// only tied to real instants through the agency timezone.
+
+const SERVICE_DATE_PATTERN = /^(\d{4})(\d{2})(\d{2})$/;
+
+// Seconds since the start of the service day, or NaN if malformed
+export function parseGtfsTimeOfDay(timeStr: string): number {
+  const parts = timeStr.split(":");
+  if (parts.length !== 3) return NaN;
+
+  const [hours, minutes, seconds] = parts.map(Number);
+  return hours * 3600 + minutes * 60 + seconds;
+}
+
+// Format seconds since the start of the service day as HH:MM:SS
+export function formatGtfsTime(secondsOfDay: number): string {
+  const hours = Math.floor(secondsOfDay / 3600);
+  const minutes = Math.floor((secondsOfDay % 3600) / 60);
+  const seconds = secondsOfDay % 60;
+  return [hours, minutes, seconds]
+    .map((value) => String(value).padStart(2, "0"))
+    .join(":");
+}
+
+// UTC midnight of a service date, used only for calendar arithmetic
+function serviceDateToUtc(serviceDate: string): Date {
+  const match = SERVICE_DATE_PATTERN.exec(serviceDate);
+  if (!match) {
+    throw new Error(`Invalid service date: ${serviceDate}`);
+  }
+
+  const [, year, month, day] = match;
+  return new Date(Date.UTC(Number(year), Number(month) - 1, Number(day)));
+}
+
+function utcToServiceDate(date: Date): string {
+  const year = date.getUTCFullYear();
+  const month = String(date.getUTCMonth() + 1).padStart(2, "0");
+  const day = String(date.getUTCDate()).padStart(2, "0");
+  return `${year}${month}${day}`;
+}
+
+export function isValidServiceDate(serviceDate: string): boolean {
+  if (!SERVICE_DATE_PATTERN.test(serviceDate)) return false;
+  return utcToServiceDate(serviceDateToUtc(serviceDate)) === serviceDate;
+}
+
+export function addServiceDays(serviceDate: string, days: number): string {
+  const date = serviceDateToUtc(serviceDate);
+  date.setUTCDate(date.getUTCDate() + days);
+  return utcToServiceDate(date);
+}
+
+// Day of the week of a service date, like Date.getDay(): 0 = Sunday
+export function getServiceDateWeekday(serviceDate: string): number {
+  return serviceDateToUtc(serviceDate).getUTCDay();
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getZonedParts(
+  time: number,
+  timeZone: string,
+): Record<"year" | "month" | "day" | "hour" | "minute" | "second", number> {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatters.set(timeZone, formatter);
+  }
+
+  const parts = { year: 0, month: 0, day: 0, hour: 0, minute: 0, second: 0 };
+  for (const part of formatter.formatToParts(new Date(time))) {
+    if (part.type in parts) {
+      parts[part.type as keyof typeof parts] = Number(part.value);
+    }
+  }
+  return parts;
+}
+
+// Offset of the timezone from UTC at the given instant, in milliseconds
+function getTimeZoneOffset(time: number, timeZone: string): number {
+  const parts = getZonedParts(time, timeZone);
+  const wallClockAsUtc = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second,
+  );
+  return wallClockAsUtc - Math.floor(time / 1000) * 1000;
+}
+
+// The service date an instant falls on, as a calendar date in the timezone
+export function formatServiceDate(date: Date, timeZone: string): string {
+  const parts = getZonedParts(date.getTime(), timeZone);
+  return utcToServiceDate(
+    new Date(Date.UTC(parts.year, parts.month - 1, parts.day)),
+  );
+}
+
+/**
+ * Unix timestamp (seconds) that GTFS times on a service date are measured
+ * from. Per the GTFS spec this is "noon minus 12h" in the agency timezone,
+ * which differs from midnight on the days DST starts or ends.
+ */
+export function getServiceDayStart(
+  serviceDate: string,
+  timeZone: string,
+): number {
+  const date = serviceDateToUtc(serviceDate);
+  const noonAsUtc = date.getTime() + 12 * 3600 * 1000;
+  const noon = noonAsUtc - getTimeZoneOffset(noonAsUtc, timeZone);
+
+  // Re-check the offset at the resolved instant in case a DST change falls
+  // between noon UTC and noon local time
+  const offset = getTimeZoneOffset(noon, timeZone);
+  return (noonAsUtc - offset) / 1000 - 12 * 3600;
+}
@@ -0,0 +1,42 @@
+// A translation as decoded from a GTFS-realtime TranslatedString
+export interface TranslationLike {
+  text?: string | null;
+  language?: string | null;
+}
+
+// The primary language subtag, lowercased ("en-CA" -> "en")
+function primaryLanguage(tag: string): string {
+  return tag.split("-")[0].toLowerCase();
+}
+
+/**
+ * The translation that best suits a reader's preferred languages, most
+ * preferred first. Each language is tried as an exact tag and then by its
+ * primary subtag (so "en-CA" finds "en" and "fr" finds "fr-CA"). With no
+ * match the untagged translation is used, which the spec reserves for text
+ * in the feed's default language, and failing that the first one.
+ */
+export function pickTranslation<T extends TranslationLike>(
+  translations: T[] | null | undefined,
+  preferred: string[] = [],
+): T | undefined {
+  if (!translations || translations.length === 0) return undefined;
+
+  for (const tag of preferred) {
+    const lower = tag.toLowerCase();
+    const match =
+      translations.find(
+        (translation) => translation.language?.toLowerCase() === lower,
+      ) ||
+      translations.find(
+        (translation) =>
+          !!translation.language &&
+          primaryLanguage(translation.language) === primaryLanguage(tag),
+      );
+    if (match) return match;
+  }
+
+  return (
+    translations.find((translation) => !translation.language) || translations[0]
+  );
+}
@@ -0,0 +1,143 @@
+import { METERS_PER_DEGREE_LAT, haversineDistance } from "./geo";
+
+export interface GridMatch<T> {
+  item: T;
+  distance: number; // Meters
+}
+
+export interface BoundingBox {
+  minLat: number;
+  minLon: number;
+  maxLat: number;
+  maxLon: number;
+}
+
+// Cells are a fixed size in degrees; ~550m of latitude keeps a typical
+// nearby-stops radius within a handful of cells
+const DEFAULT_CELL_SIZE_DEGREES = 0.005;
+
+/**
+ * Uniform grid over latitude/longitude for radius, k-nearest and bounding
+ * box lookups. Only the cells overlapping a query are scanned, and exact
+ * distances are still haversine, so results match a full scan.
+ */
+export class SpatialGrid<T> {
+  private readonly cells = new Map<string, T[]>();
+  private size = 0;
+
+  constructor(
+    private readonly getPosition: (item: T) => { lat: number; lon: number },
+    private readonly cellSize: number = DEFAULT_CELL_SIZE_DEGREES,
+  ) {}
+
+  get count(): number {
+    return this.size;
+  }
+
+  insert(item: T): void {
+    const { lat, lon } = this.getPosition(item);
+    const key = this.cellKey(this.cellIndex(lat), this.cellIndex(lon));
+
+    let cell = this.cells.get(key);
+    if (!cell) {
+      cell = [];
+      this.cells.set(key, cell);
+    }
+    cell.push(item);
+    this.size++;
+  }
+
+  // Items within radiusMeters of a point, nearest first
+  withinRadius(lat: number, lon: number, radiusMeters: number): GridMatch<T>[] {
+    const latDelta = radiusMeters / METERS_PER_DEGREE_LAT;
+    // Widen the longitude span at the pole-ward edge of the search area
+    const lonDelta =
+      radiusMeters /
+      (METERS_PER_DEGREE_LAT *
+        Math.max(Math.cos(((Math.abs(lat) + latDelta) * Math.PI) / 180), 1e-6));
+
+    const matches: GridMatch<T>[] = [];
+    for (const item of this.candidates({
+      minLat: lat - latDelta,
+      minLon: lon - lonDelta,
+      maxLat: lat + latDelta,
+      maxLon: lon + lonDelta,
+    })) {
+      const position = this.getPosition(item);
+      const distance = haversineDistance(lat, lon, position.lat, position.lon);
+      if (distance <= radiusMeters) {
+        matches.push({ item, distance });
+      }
+    }
+
+    return matches.sort((a, b) => a.distance - b.distance);
+  }
+
+  // The k items nearest to a point, no further away than maxRadiusMeters
+  nearest(
+    lat: number,
+    lon: number,
+    k: number,
+    maxRadiusMeters: number,
+  ): GridMatch<T>[] {
+    // Grow the search radius until it holds k items; every item closer than
+    // the kth match is then inside it
+    let radius = Math.min(
+      this.cellSize * METERS_PER_DEGREE_LAT,
+      maxRadiusMeters,
+    );
+    for (;;) {
+      const matches = this.withinRadius(lat, lon, radius);
+      if (matches.length >= k || radius >= maxRadiusMeters) {
+        return matches.slice(0, k);
+      }
+      radius = Math.min(radius * 2, maxRadiusMeters);
+    }
+  }
+
+  // Items inside a bounding box, in no particular order
+  withinBounds(bounds: BoundingBox): T[] {
+    const items: T[] = [];
+    for (const item of this.candidates(bounds)) {
+      const { lat, lon } = this.getPosition(item);
+      if (
+        lat >= bounds.minLat &&
+        lat <= bounds.maxLat &&
+        lon >= bounds.minLon &&
+        lon <= bounds.maxLon
+      ) {
+        items.push(item);
+      }
+    }
+    return items;
+  }
+
+  // Items in every cell overlapping the bounds
+  private *candidates(bounds: BoundingBox): Generator<T> {
+    const minRow = this.cellIndex(bounds.minLat);
+    const maxRow = this.cellIndex(bounds.maxLat);
+    const minCol = this.cellIndex(bounds.minLon);
+    const maxCol = this.cellIndex(bounds.maxLon);
+
+    // A huge box covers more cells than exist; walk the cells instead
+    if ((maxRow - minRow + 1) * (maxCol - minCol + 1) > this.cells.size) {
+      for (const cell of this.cells.values()) yield* cell;
+      return;
+    }
+
+    for (let row = minRow; row <= maxRow; row++) {
+      for (let col = minCol; col <= maxCol; col++) {
+        const cell = this.cells.get(this.cellKey(row, col));
+        if (cell) yield* cell;
+      }
+    }
+  }
+
+  private cellIndex(degrees: number): number {
+    return Math.floor(degrees / this.cellSize);
+  }
+
+  private cellKey(row: number, col: number): string {
+    return `${row}:${col}`;
+  }
+}
@@ -0,0 +1,33 @@
+import { EventEmitter } from "events";
+
+/**
+ * EventEmitter whose event names and payloads are checked against an event
+ * map, e.g. `{ vehicleMoved: VehicleMovedEvent }`.
+ */
+export class TypedEventEmitter<Events extends object> {
+  private readonly emitter = new EventEmitter();
+
+  on<K extends keyof Events & string>(
+    event: K,
+    listener: (payload: Events[K]) => void,
+  ): this {
+    this.emitter.on(event, listener);
+    return this;
+  }
+
+  off<K extends keyof Events & string>(
+    event: K,
+    listener: (payload: Events[K]) => void,
+  ): this {
+    this.emitter.off(event, listener);
+    return this;
+  }
+
+  emit<K extends keyof Events & string>(event: K, payload: Events[K]): boolean {
+    return this.emitter.emit(event, payload);
+  }
+
+  listenerCount(event: keyof Events & string): number {
+    return this.emitter.listenerCount(event);
+  }
+}